@@ -0,0 +1,89 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { Protocol as Crdp } from 'devtools-protocol';
+
+export type StepRequest = (api: Crdp.ProtocolApi) => Promise<void>;
+
+const stepOver: StepRequest = api => api.Debugger.stepOver();
+const stepOut: StepRequest = api => api.Debugger.stepOut();
+
+// The runtime pauses in the first async call that is scheduled before the next pause
+const stepIntoAsyncCall: StepRequest = api => api.Debugger.stepInto({ breakOnAsyncCall: true });
+
+/* Rationale: When the last frame of an async task (a promise callback, the continuation of an await, a setTimeout callback, etc...)
+   returns, there is no caller to step to, so Debugger.stepOver and stepOut run until something else pauses. The code that continues
+   the logical flow is what the return schedules: the next callback of the promise chain, or the async function that awaits the
+   promise. So at the return of such a frame we step into the async call that the return schedules instead. To step out from the
+   middle of the frame, we step over to its return first.
+*/
+
+/**
+ * Decides how to step over and out of the last frame of an async task, so the steps follow the async parents
+ */
+export class AsyncStepper {
+    // The function that we are stepping out of, while we step over to its return
+    private _steppingOutOf: Crdp.Debugger.Location | undefined;
+
+    constructor(private readonly _enabled: boolean) { }
+
+    public next(pauseEvent: Crdp.Debugger.PausedEvent | undefined): StepRequest {
+        this._steppingOutOf = undefined;
+        return this._enabled && isInLastFrameOfAsyncTask(pauseEvent) && isAtReturn(pauseEvent) ? stepIntoAsyncCall : stepOver;
+    }
+
+    public stepOut(pauseEvent: Crdp.Debugger.PausedEvent | undefined): StepRequest {
+        this._steppingOutOf = undefined;
+        if (!this._enabled || !isInLastFrameOfAsyncTask(pauseEvent)) {
+            return stepOut;
+        }
+
+        if (isAtReturn(pauseEvent)) {
+            return stepIntoAsyncCall;
+        }
+
+        this._steppingOutOf = pauseEvent.callFrames[0].functionLocation;
+        return stepOver;
+    }
+
+    /**
+     * Returns the step to take when we paused on the way to the return of the frame that we step out of, or undefined when this pause should be shown
+     */
+    public onPaused(notification: Crdp.Debugger.PausedEvent): StepRequest | undefined {
+        const steppingOutOf = this._steppingOutOf;
+        this._steppingOutOf = undefined;
+        if (!steppingOutOf || notification.reason !== 'other' || (notification.hitBreakpoints && notification.hitBreakpoints.length)) {
+            return undefined;
+        }
+
+        const callFrame = notification.callFrames[0];
+        if (notification.callFrames.length !== 1 || !callFrame.functionLocation || !locationsEqual(callFrame.functionLocation, steppingOutOf)) {
+            // Left the frame without returning, e.g. it threw
+            return undefined;
+        }
+
+        if (isAtReturn(notification)) {
+            return stepIntoAsyncCall;
+        }
+
+        this._steppingOutOf = steppingOutOf;
+        return stepOver;
+    }
+}
+
+/**
+ * Whether the top frame has no synchronous caller, and was called by an async task that we can step to
+ */
+function isInLastFrameOfAsyncTask(pauseEvent: Crdp.Debugger.PausedEvent | undefined): boolean {
+    return !!pauseEvent && pauseEvent.callFrames.length === 1 && !!pauseEvent.callFrames[0].functionLocation &&
+        !!(pauseEvent.asyncStackTrace || pauseEvent.asyncStackTraceId);
+}
+
+function isAtReturn(pauseEvent: Crdp.Debugger.PausedEvent): boolean {
+    return !!pauseEvent.callFrames[0].returnValue;
+}
+
+function locationsEqual(a: Crdp.Debugger.Location, b: Crdp.Debugger.Location): boolean {
+    return a.scriptId === b.scriptId && a.lineNumber === b.lineNumber && (a.columnNumber || 0) === (b.columnNumber || 0);
+}
@@ -10,7 +10,7 @@ import { ChromeDebugAdapter } from './chromeDebugAdapter';
 import * as ChromeUtils from './chromeUtils';
 import * as assert from 'assert';
 import { InternalSourceBreakpoint } from './internalSourceBreakpoint';
-import { utils, Version } from '..';
+import { utils } from '..';
 
 export interface UrlRegexAndFileSet {
     urlRegex: string;
@@ -18,8 +18,6 @@ export interface UrlRegexAndFileSet {
 }
 
 export class BreakOnLoadHelper {
-    private _doesDOMInstrumentationRecieveExtraEvent = false;
-
     private _instrumentationBreakpointSet = false;
 
     // Break on load: Store some mapping between the requested file names, the regex for the file, and the chrome breakpoint id to perform lookup operations efficiently
@@ -58,10 +56,15 @@ export class BreakOnLoadHelper {
         return utils.canonicalizeUrl(this._chromeDebugAdapter.scriptsById.get(scriptId).url);
     }
 
-    public async setBrowserVersion(version: Version): Promise<void> {
-        // On version 69 Chrome stopped sending an extra event for DOM Instrumentation: See https://bugs.chromium.org/p/chromium/issues/detail?id=882909
-        // On Chrome 68 we were relying on that event to make Break on load work on breakpoints on the first line of a file. On Chrome 69 we need an alternative way to make it work.
-        this._doesDOMInstrumentationRecieveExtraEvent = !version.isAtLeastVersion(69, 0);
+    /**
+     * The 'instrument' strategy falls back to 'regex' if the runtime doesn't support instrumentation breakpoints
+     */
+    private get breakOnLoadStrategy(): BreakOnLoadStrategy {
+        if (this._breakOnLoadStrategy === 'instrument' && !this._chromeDebugAdapter.runtimeCapabilities.isSupported('instrumentationBreakpoints')) {
+            return 'regex';
+        }
+
+        return this._breakOnLoadStrategy;
     }
 
     /**
@@ -73,7 +76,7 @@ export class BreakOnLoadHelper {
         if (notification.hitBreakpoints && notification.hitBreakpoints.length) {
             // If breakOnLoadStrategy is set to regex, we may have hit a stopOnEntry breakpoint we put.
             // So we need to resolve all the pending breakpoints in this script and then decide to continue or not
-            if (this._breakOnLoadStrategy === 'regex') {
+            if (this.breakOnLoadStrategy === 'regex') {
                 let shouldContinue = await this.handleStopOnEntryBreakpointAndContinue(notification);
                 return shouldContinue;
             }
@@ -84,7 +87,9 @@ export class BreakOnLoadHelper {
             // Now we wait for all the pending breakpoints to be resolved and then continue
             await this._chromeDebugAdapter.getBreakpointsResolvedDefer(pausedScriptId).promise;
             logger.log('BreakOnLoadHelper: Finished waiting for breakpoints to get resolved.');
-            let shouldContinue = this._doesDOMInstrumentationRecieveExtraEvent || await this.handleStopOnEntryBreakpointAndContinue(notification);
+            // Before version 69 Chrome sent an extra event for DOM Instrumentation, which we relied on to make Break on load work on breakpoints on the first line
+            // of a file. On newer versions we need an alternative way to make it work.
+            let shouldContinue = this._chromeDebugAdapter.runtimeCapabilities.isSupported('instrumentationPauseExtraEvent') || await this.handleStopOnEntryBreakpointAndContinue(notification);
             return shouldContinue;
         }
 
@@ -241,9 +246,9 @@ export class BreakOnLoadHelper {
      */
     public async handleAddBreakpoints(url: string, breakpoints: InternalSourceBreakpoint[]): Promise<ISetBreakpointResult[]> {
         // If the strategy is set to regex, we try to match the file where user put the breakpoint through a regex and tell Chrome to put a stop on entry breakpoint there
-        if (this._breakOnLoadStrategy === 'regex') {
+        if (this.breakOnLoadStrategy === 'regex') {
         await this.addStopOnEntryBreakpoint(url);
-        } else if (this._breakOnLoadStrategy === 'instrument') {
+        } else if (this.breakOnLoadStrategy === 'instrument') {
             // Else if strategy is to use Chrome's experimental instrumentation API, we stop on all the scripts at the first statement before execution
             if (!this.instrumentationBreakpointSet) {
                 await this.setInstrumentationBreakpoint();
@@ -281,7 +286,7 @@ export class BreakOnLoadHelper {
      * For the default Chrome's API approach, we don't need to call resolvePendingBPs from inside scriptParsed
      */
     public shouldResolvePendingBPs(mappedUrl: string): boolean {
-        if (this._breakOnLoadStrategy === 'regex' && !this.stopOnEntryRequestedFileNameToBreakpointId.has(mappedUrl)) {
+        if (this.breakOnLoadStrategy === 'regex' && !this.stopOnEntryRequestedFileNameToBreakpointId.has(mappedUrl)) {
             return true;
         }
         return false;
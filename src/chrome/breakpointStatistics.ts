@@ -0,0 +1,54 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { IBreakpointStatistics } from '../debugAdapterInterfaces';
+
+import * as nls from 'vscode-nls';
+let localize = nls.loadMessageBundle();
+
+/**
+ * Records when each breakpoint is hit, including the hits that don't pause, like the hits of logpoints and of hit condition breakpoints.
+ * The breakpoints are identified by their DAP ids.
+ */
+export class BreakpointStatistics {
+    private static MAX_RECENT_HITS = 10;
+
+    private _statisticsById = new Map<number, IBreakpointStatistics>();
+
+    /**
+     * @param stack A summary of each frame of the stack where the breakpoint was hit, top frame first
+     */
+    public recordHit(id: number, stack: string[], time = Date.now()): void {
+        let statistics = this._statisticsById.get(id);
+        if (!statistics) {
+            statistics = { id, hitCount: 0, firstHitTime: time, lastHitTime: time, recentHits: [] };
+            this._statisticsById.set(id, statistics);
+        }
+
+        statistics.hitCount++;
+        statistics.lastHitTime = time;
+        statistics.recentHits.unshift({ time, stack });
+        statistics.recentHits.splice(BreakpointStatistics.MAX_RECENT_HITS);
+    }
+
+    public getStatistics(): IBreakpointStatistics[] {
+        return Array.from(this._statisticsById.values())
+            .sort((a, b) => a.id - b.id);
+    }
+
+    /**
+     * The summary that is shown as the message of the breakpoint, or undefined if it wasn't hit
+     */
+    public getMessage(id: number): string | undefined {
+        const statistics = this._statisticsById.get(id);
+        if (!statistics) {
+            return undefined;
+        }
+
+        const lastHitTime = new Date(statistics.lastHitTime).toLocaleTimeString();
+        return statistics.hitCount === 1 ?
+            localize('bp.hitOnce', 'Hit once, at {0}', lastHitTime) :
+            localize('bp.hitCount', 'Hit {0} times, last at {1}', statistics.hitCount, lastHitTime);
+    }
+}
@@ -3,12 +3,16 @@
  *--------------------------------------------------------*/
 
 import { DebugProtocol } from 'vscode-debugprotocol';
-import { BreakpointEvent, logger } from 'vscode-debugadapter';
-import { ISetBreakpointsArgs, ISetBreakpointsResponseBody, ISetBreakpointResult } from '../debugAdapterInterfaces';
+import { BreakpointEvent, OutputEvent, logger } from 'vscode-debugadapter';
+import { ISetBreakpointsArgs, ISetBreakpointsResponseBody, ISetBreakpointResult, IBreakpointDiagnosticsResponseBody, IBreakpointStatisticsResponseBody, ISourceBreakpoint } from '../debugAdapterInterfaces';
 import * as ChromeUtils from './chromeUtils';
 import { Protocol as Crdp } from 'devtools-protocol';
 import { ReasonType } from './stoppedEvent';
-import { InternalSourceBreakpoint } from './internalSourceBreakpoint';
+import { InternalSourceBreakpoint, isLogpointStack } from './internalSourceBreakpoint';
+import { BreakpointStatistics } from './breakpointStatistics';
+import { TriggerBreakpoints } from './triggerBreakpoints';
+import { LogpointRateLimiter, LogpointOutputFile, ILogpointOutputEntry } from './logpointOutput';
+import { getRemoteObjectPreview } from './variables';
 import { ScriptContainer } from './scripts';
 import { ChromeDebugAdapter } from '..';
 import { IPendingBreakpoint, BreakpointSetResult } from './chromeDebugAdapter';
@@ -19,11 +23,33 @@ import * as nls from 'vscode-nls';
 import { ChromeConnection } from './chromeConnection';
 let localize = nls.loadMessageBundle();
 
+/**
+ * A breakpoint that the client set on a function by name. It's bound to the function object that the name evaluates to, so it's
+ * lost when the target navigates and it needs to be bound again.
+ */
+interface IFunctionBreakpoint {
+    id: number;
+    name: string;
+    condition?: string;
+    hitCondition?: string;
+
+    // Undefined while the breakpoint isn't bound
+    breakpointId?: Crdp.Debugger.BreakpointId;
+}
+
 export interface IHitConditionBreakpoint {
     numHits: number;
     shouldPause: (numHits: number) => boolean;
 }
 
+/**
+ * A target other than the main one (e.g. a worker or an iframe) which should get the same breakpoints as the main target
+ */
+export interface IChildTargetBreakpointsContext {
+    api: Crdp.ProtocolApi;
+    scripts: ScriptContainer;
+}
+
 /**
  * Encapsulates all the logic surrounding breakpoints (e.g. set, unset, hit count breakpoints, etc.)
  */
@@ -33,11 +59,46 @@ export class Breakpoints {
 
     private static HITCONDITION_MATCHER = /^(>|>=|=|<|<=|%)?\s*([0-9]+)$/;
 
+    // The functions usually don't exist yet when their script is parsed, so we wait a bit for the scripts to run before trying to bind the function breakpoints
+    private static BIND_FUNCTION_BREAKPOINTS_DELAY = 200;
+
+    private static FUNCTION_BREAKPOINTS_OBJECT_GROUP = 'functionBreakpoints';
+
+    // A logpoint can be hit many times a second, so the messages of the breakpoints that were hit are updated at most this often
+    private static UPDATE_HIT_MESSAGES_DELAY = 1000;
+
+    private static MAX_HIT_STACK_FRAMES = 5;
+
     private _breakpointIdHandles: utils.ReverseHandles<Crdp.Debugger.BreakpointId>;
     private _nextUnboundBreakpointId = 0;
     private _pendingBreakpointsByUrl: Map<string, IPendingBreakpoint>;
     private _hitConditionBreakpointsById: Map<Crdp.Debugger.BreakpointId, IHitConditionBreakpoint>;
 
+    // setBreakpointByUrl requests that are currently set, so they can be replayed on child targets attached later
+    private _urlBreakpointRequestsById = new Map<Crdp.Debugger.BreakpointId, Crdp.Debugger.SetBreakpointByUrlRequest>();
+    private _childTargets: IChildTargetBreakpointsContext[] = [];
+
+    private _functionBreakpoints: IFunctionBreakpoint[] = [];
+    private _functionBreakpointsQ: Promise<any> = Promise.resolve();
+    private _bindFunctionBreakpointsTimer: NodeJS.Timer;
+
+    // The statistics are kept for the whole session, across navigations and resets
+    private _statistics = new BreakpointStatistics();
+    private _hitIdsToUpdate = new Set<number>();
+    private _updateHitMessagesTimer: NodeJS.Timer | undefined;
+
+    // The last state of each breakpoint that was sent to the client, so that updating its message doesn't change the rest
+    private _clientBreakpointsById = new Map<number, DebugProtocol.Breakpoint>();
+
+    private _triggers = new TriggerBreakpoints();
+
+    private _logpointRateLimiter = new LogpointRateLimiter((id, count, callFrame) => this.reportSuppressedLogpointMessages(id, count, callFrame)
+        .catch(e => logger.log('Failed to report the suppressed logpoint messages: ' + e.message)));
+    private _logpointOutputFile: LogpointOutputFile | undefined;
+
+    private _snapshotPointIds = new Set<number>();
+    private _snapshotPointIdsByPath = new Map<string, number[]>();
+
     // when working with _committedBreakpointsByUrl, we want to keep the url keys canonicalized for consistency
     // use methods getValueFromCommittedBreakpointsByUrl and setValueForCommittedBreakpointsByUrl
     private _committedBreakpointsByUrl = new Map<string, ISetBreakpointResult[]>();
@@ -74,6 +135,10 @@ export class Breakpoints {
     reset() {
         this._committedBreakpointsByUrl = new Map<string, ISetBreakpointResult[]>();
         this._setBreakpointsRequestQ = Promise.resolve();
+        this.unbindFunctionBreakpoints();
+
+        // The triggers need to be hit again in the new target context
+        this._triggers.reset().forEach(id => this.sendBreakpointMessage(id));
     }
 
     /**
@@ -90,6 +155,8 @@ export class Breakpoints {
             args.source.path = utils.canonicalizeUrl(args.source.path);
         }
 
+        const clientPath = args.source.path;
+        const requestedBreakpoints = args.breakpoints || [];
         return this.validateBreakpointsPath(args)
             .then(() => {
                 // Deep copy the args that we are going to modify, and keep the original values in originalArgs
@@ -128,8 +195,8 @@ export class Breakpoints {
                     const internalBPs = args.breakpoints.map(bp => new InternalSourceBreakpoint(bp));
                     const setBreakpointsPFailOnError = this._setBreakpointsRequestQ
                         .then(() => this.clearAllBreakpoints(targetScriptUrl))
-                        .then(() => this.addBreakpoints(targetScriptUrl, internalBPs, scripts))
-                        .then(responses => ({ breakpoints: this.targetBreakpointResponsesToBreakpointSetResults(targetScriptUrl, responses, internalBPs, ids) }));
+                        .then(() => this.addValidBreakpoints(targetScriptUrl, internalBPs, scripts, ids))
+                        .then(breakpoints => ({ breakpoints }));
 
                     const setBreakpointsPTimeout = utils.promiseTimeout(setBreakpointsPFailOnError, Breakpoints.SET_BREAKPOINTS_TIMEOUT, localize('setBPTimedOut', 'Set breakpoints request timed out'));
 
@@ -157,7 +224,45 @@ export class Breakpoints {
                     return Promise.resolve(this.unverifiedBpResponse(args, requestSeq, undefined, localize('bp.fail.noscript', "Can't find script for breakpoint request")));
                 }
             },
-            e => this.unverifiedBpResponse(args, requestSeq, undefined, e.message));
+            e => this.unverifiedBpResponse(args, requestSeq, undefined, e.message))
+            .then(body => this.setBreakpointOptions(clientPath, requestedBreakpoints, body));
+    }
+
+    /**
+     * Track the custom options of the breakpoints of the source: their triggers and whether they are snapshot points. Show whether they
+     * are armed in the response.
+     */
+    private setBreakpointOptions(clientPath: string | undefined, requestedBreakpoints: ISourceBreakpoint[], body: ISetBreakpointsResponseBody): ISetBreakpointsResponseBody {
+        if (!clientPath) {
+            return body;
+        }
+
+        (this._snapshotPointIdsByPath.get(clientPath) || []).forEach(id => this._snapshotPointIds.delete(id));
+        const snapshotPointIds = body.breakpoints
+            .filter((bp, i) => requestedBreakpoints[i] && requestedBreakpoints[i].snapshot && typeof bp.id === 'number')
+            .map(bp => bp.id);
+        snapshotPointIds.forEach(id => this._snapshotPointIds.add(id));
+        this._snapshotPointIdsByPath.set(clientPath, snapshotPointIds);
+
+        const breakpoints = requestedBreakpoints.map(bp => bp.triggeredBy ?
+            { ...bp, triggeredBy: { ...bp.triggeredBy, path: utils.canonicalizeUrl(this.adapter.displayPathToRealPath(bp.triggeredBy.path)) } } :
+            bp);
+        this._triggers.setBreakpoints(clientPath, breakpoints, body.breakpoints);
+
+        body.breakpoints
+            .filter(bp => bp.verified)
+            .forEach(bp => {
+                const message = this.getBreakpointMessage(bp.id);
+                if (message) {
+                    bp.message = message;
+                }
+            });
+
+        body.breakpoints
+            .filter(bp => typeof bp.id === 'number')
+            .forEach(bp => this._clientBreakpointsById.set(bp.id, { ...bp }));
+
+        return body;
     }
 
     protected validateBreakpointsPath(args: ISetBreakpointsArgs): Promise<void> {
@@ -183,6 +288,57 @@ export class Breakpoints {
         });
     }
 
+    /**
+     * Set the breakpoints whose condition and log message expressions compile. The others are unverified with the error of the expression,
+     * because the runtime would never hit them.
+     */
+    private async addValidBreakpoints(url: string, breakpoints: InternalSourceBreakpoint[], scripts: ScriptContainer, ids?: number[]): Promise<BreakpointSetResult[]> {
+        const expressionErrors = await Promise.all(breakpoints.map(bp => this.compileExpression(bp)));
+        const validBreakpoints = breakpoints.filter((_, i) => !expressionErrors[i]);
+        const validIds = ids && ids.filter((_, i) => !expressionErrors[i]);
+
+        const responses = await this.addBreakpoints(url, validBreakpoints, scripts);
+        const validResults = this.targetBreakpointResponsesToBreakpointSetResults(url, responses, validBreakpoints, validIds);
+
+        return breakpoints.map((_, i) => {
+            if (!expressionErrors[i]) {
+                return validResults.shift();
+            }
+
+            return {
+                isSet: false,
+                breakpoint: <DebugProtocol.Breakpoint>{
+                    id: (ids && ids[i]) || this._breakpointIdHandles.create(this.generateNextUnboundBreakpointId()),
+                    verified: false,
+                    message: breakpoints[i].isLogpoint ?
+                        localize('bp.invalidLogMessage', 'Invalid log message: {0}', ChromeUtils.errorMessageFromExceptionDetails(expressionErrors[i])) :
+                        localize('bp.invalidCondition', 'Invalid condition: {0}', ChromeUtils.errorMessageFromExceptionDetails(expressionErrors[i]))
+                }
+            };
+        });
+    }
+
+    /**
+     * Compile the expression of the breakpoint, and return the syntax error if it has one
+     */
+    private async compileExpression(breakpoint: InternalSourceBreakpoint): Promise<Crdp.Runtime.ExceptionDetails | undefined> {
+        if (!breakpoint.expression) {
+            return undefined;
+        }
+
+        try {
+            const response = await this.chrome.Runtime.compileScript({ expression: breakpoint.expression, sourceURL: '', persistScript: false });
+            if (response.exceptionDetails) {
+                return response.exceptionDetails;
+            }
+        } catch (e) {
+            // E.g. the target has no execution context yet. The breakpoint is set anyway.
+            logger.log(`Failed to compile the expression of a breakpoint: ${e.message}`);
+        }
+
+        return undefined;
+    }
+
     /**
      * Makes the actual call to either Debugger.setBreakpoint or Debugger.setBreakpointByUrl, and returns the response.
      * Responses from setBreakpointByUrl are transformed to look like the response from setBreakpoint, so they can be
@@ -227,7 +383,7 @@ export class Breakpoints {
      */
     async addOneBreakpointByUrl(scriptId: Crdp.Runtime.ScriptId | undefined, urlRegex: string, lineNumber: number, columnNumber: number, condition: string): Promise<ISetBreakpointResult> {
         let bpLocation = { lineNumber, columnNumber };
-        if (this.adapter.columnBreakpointsEnabled && scriptId) { // scriptId undefined when script not yet loaded, can't fix up column BP :(
+        if (this.adapter.runtimeCapabilities.isSupported('columnBreakpoints') && scriptId) { // scriptId undefined when script not yet loaded, can't fix up column BP :(
             try {
                 const possibleBpResponse = await this.chrome.Debugger.getPossibleBreakpoints({
                     start: { scriptId, lineNumber, columnNumber: 0 },
@@ -242,9 +398,12 @@ export class Breakpoints {
             }
         }
 
-        let result;
+        const request: Crdp.Debugger.SetBreakpointByUrlRequest = { urlRegex, lineNumber: bpLocation.lineNumber, columnNumber: bpLocation.columnNumber, condition };
+        let result: Crdp.Debugger.SetBreakpointByUrlResponse;
         try {
-            result = await this.chrome.Debugger.setBreakpointByUrl({ urlRegex, lineNumber: bpLocation.lineNumber, columnNumber: bpLocation.columnNumber, condition });
+            result = await this.chrome.Debugger.setBreakpointByUrl(request);
+            this._urlBreakpointRequestsById.set(result.breakpointId, request);
+            this._childTargets.forEach(childTarget => this.setUrlBreakpointOnChildTarget(childTarget, request));
         } catch (e) {
             if (e.message === 'Breakpoint at specified location already exists.') {
                 return {
@@ -358,6 +517,71 @@ export class Breakpoints {
         return null;
     }
 
+    /**
+     * Explain what happens to the breakpoints of a source, following the same steps as setBreakpoints: the path is mapped to the generated
+     * script with the source maps, then to the target url with the path transformer
+     */
+    public async getBreakpointDiagnostics(clientPath: string, scripts: ScriptContainer): Promise<IBreakpointDiagnosticsResponseBody> {
+        clientPath = utils.canonicalizeUrl(this.adapter.displayPathToRealPath(clientPath));
+        const generatedPath = await this.adapter.sourceMapTransformer.getGeneratedPathFromAuthoredPath(clientPath) || null;
+        const targetPath = generatedPath && (this.adapter.pathTransformer.getTargetPathFromClientPath(generatedPath) || null);
+        const urlRegex = targetPath && utils.pathToRegex(targetPath);
+
+        const loadedScripts: IBreakpointDiagnosticsResponseBody['loadedScripts'] = [];
+        for (const script of Array.from(scripts.loadedScripts)) {
+            const scriptInfo = { scriptId: script.scriptId, url: script.url, sourceMapURL: script.sourceMapURL || undefined };
+            if (targetPath && utils.canonicalizeUrl(script.url) === utils.canonicalizeUrl(targetPath)) {
+                loadedScripts.push({ ...scriptInfo, referencedBy: 'url' });
+            } else if (script.sourceMapURL) {
+                const scriptPath = this.adapter.pathTransformer.getClientPathFromTargetPath(script.url) || script.url;
+                const sources = await this.adapter.sourceMapTransformer.allSources(scriptPath);
+                if (sources.some(source => utils.canonicalizeUrl(source) === clientPath)) {
+                    loadedScripts.push({ ...scriptInfo, referencedBy: 'sourceMap' });
+                }
+            }
+        }
+
+        const resolvedLocations = new Map<Crdp.Debugger.BreakpointId, Crdp.Debugger.Location[]>();
+        this._committedBreakpointsByUrl.forEach(committedBps => committedBps
+            .filter(committedBp => committedBp.breakpointId && committedBp.actualLocation)
+            .forEach(committedBp => resolvedLocations.set(committedBp.breakpointId, (resolvedLocations.get(committedBp.breakpointId) || []).concat(committedBp.actualLocation))));
+
+        const breakpoints = Array.from(this._urlBreakpointRequestsById.entries())
+            .filter(([_, request]) => urlRegex && request.urlRegex === urlRegex)
+            .map(([breakpointId, request]) => ({
+                breakpointId,
+                lineNumber: request.lineNumber,
+                columnNumber: request.columnNumber,
+                condition: request.condition,
+                resolvedLocations: resolvedLocations.get(breakpointId) || []
+            }));
+
+        const pendingBreakpoint = this._pendingBreakpointsByUrl.get(clientPath);
+        return {
+            clientPath,
+            generatedPath,
+            targetPath,
+            urlRegex,
+            loadedScripts,
+            breakpoints,
+            pendingOnScriptLoad: !!pendingBreakpoint,
+            pendingSetWithPath: pendingBreakpoint ? pendingBreakpoint.setWithPath : undefined
+        };
+    }
+
+    /**
+     * The locations of the calls from this location to the end of its line, in the same function
+     */
+    public async getCallLocations(start: Crdp.Debugger.Location): Promise<Crdp.Debugger.BreakLocation[]> {
+        const possibleBpResponse = await this.chrome.Debugger.getPossibleBreakpoints({
+            start,
+            end: { scriptId: start.scriptId, lineNumber: start.lineNumber + 1, columnNumber: 0 },
+            restrictToFunction: true
+        });
+
+        return (possibleBpResponse.locations || []).filter(location => location.type === 'call');
+    }
+
     /**
      * Transform breakpoint responses from the chrome-devtools target to the DAP response
      * @param url The URL of the script for which we are translating breakpoint responses
@@ -415,7 +639,7 @@ export class Breakpoints {
 
                 const thisBpRequest = requestBps[i];
                 if (thisBpRequest.hitCondition) {
-                    if (!this.addHitConditionBreakpoint(thisBpRequest, response)) {
+                    if (!this.addHitConditionBreakpoint(thisBpRequest.hitCondition, response.breakpointId)) {
                         return  {
                             isSet: true,
                             breakpoint: <DebugProtocol.Breakpoint>{
@@ -427,20 +651,25 @@ export class Breakpoints {
                     }
                 }
 
-                return {
-                    isSet: true,
-                    breakpoint: <DebugProtocol.Breakpoint>{
-                        id: bpId,
-                        verified: true,
-                        line: response.actualLocation.lineNumber,
-                        column: response.actualLocation.columnNumber
-                    }
+                const breakpoint = <DebugProtocol.Breakpoint>{
+                    id: bpId,
+                    verified: true,
+                    line: response.actualLocation.lineNumber,
+                    column: response.actualLocation.columnNumber
                 };
+
+                // Keep showing the hits of a breakpoint that was hit before the client set the breakpoints of its source again
+                const hitMessage = this._statistics.getMessage(bpId);
+                if (hitMessage) {
+                    breakpoint.message = hitMessage;
+                }
+
+                return { isSet: true, breakpoint };
             });
     }
 
-    private addHitConditionBreakpoint(requestBp: InternalSourceBreakpoint, response: ISetBreakpointResult): boolean {
-        const result = Breakpoints.HITCONDITION_MATCHER.exec(requestBp.hitCondition.trim());
+    private addHitConditionBreakpoint(hitCondition: string, breakpointId: Crdp.Debugger.BreakpointId): boolean {
+        const result = Breakpoints.HITCONDITION_MATCHER.exec(hitCondition.trim());
         if (result && result.length >= 3) {
             let op = result[1] || '>=';
             if (op === '=') op = '==';
@@ -453,7 +682,7 @@ export class Breakpoints {
             /* tslint:disable:no-function-constructor-with-string-args */
             const shouldPause: (numHits: number) => boolean = <any>new Function('numHits', expr);
             /* tslint:enable:no-function-constructor-with-string-args */
-            this._hitConditionBreakpointsById.set(response.breakpointId, { numHits: 0, shouldPause });
+            this._hitConditionBreakpointsById.set(breakpointId, { numHits: 0, shouldPause });
             return true;
         } else {
             return false;
@@ -472,7 +701,10 @@ export class Breakpoints {
         // state where later adds on the same line will fail with 'breakpoint already exists' even though it
         // does not break there.
         return this._committedBreakpointsByUrl.get(url).reduce((p, bp) => {
-            return p.then(() => this.chrome.Debugger.removeBreakpoint({ breakpointId: bp.breakpointId })).then(() => { });
+            return p.then(() => {
+                this.removeBreakpointFromChildTargets(bp.breakpointId);
+                return this.chrome.Debugger.removeBreakpoint({ breakpointId: bp.breakpointId });
+            }).then(() => { });
         }, Promise.resolve()).then(() => {
             this._committedBreakpointsByUrl.delete(url);
         });
@@ -513,9 +745,22 @@ export class Breakpoints {
             // If we set these BPs before the script was loaded, remove from the pending list
             this._pendingBreakpointsByUrl.delete(scriptPath);
         }
+        const message = this.getBreakpointMessage(breakpointId);
+        if (message) {
+            bp.message = message;
+        }
+
         this.adapter.sourceMapTransformer.breakpointResolved(bp, scriptPath);
         this.adapter.lineColTransformer.breakpointResolved(bp);
-        this.adapter.session.sendEvent(new BreakpointEvent('changed', bp));
+        this.sendBreakpointChanged(bp);
+    }
+
+    /**
+     * An id for a breakpoint that the runtime doesn't know about, e.g. a data breakpoint. The ids of all the kinds of breakpoints
+     * come from the same handles, so the client can't confuse them.
+     */
+    public createBreakpointId(): number {
+        return this._breakpointIdHandles.create(this.generateNextUnboundBreakpointId());
     }
 
     private generateNextUnboundBreakpointId(): string {
@@ -558,6 +803,8 @@ export class Breakpoints {
     }
 
     public async handleScriptParsed(script: Crdp.Debugger.ScriptParsedEvent, scripts: ScriptContainer, mappedUrl: string, sources: string[]) {
+        this.scheduleBindFunctionBreakpoints();
+
         if (sources) {
             const filteredSources = sources.filter(source => source !== mappedUrl); // Tools like babel-register will produce sources with the same path as the generated script
             for (const filteredSource of filteredSources) {
@@ -593,12 +840,415 @@ export class Breakpoints {
         return this.setBreakpoints(pendingBP.args, scripts, pendingBP.requestSeq, pendingBP.ids).then(response => {
             response.breakpoints.forEach((bp, i) => {
                 bp.id = pendingBP.ids[i];
-                this.adapter.session.sendEvent(new BreakpointEvent('changed', bp));
+                this.sendBreakpointChanged(bp);
             });
         });
     }
 
-    public handleHitCountBreakpoints(expectingStopReason: ReasonType, hitBreakpoints) {
+    /**
+     * Set all the current breakpoints again on the main target, e.g. after reconnecting to it with a new connection.
+     * The target assigns the same ids to the same requests, so the breakpointResolved events will map to the existing breakpoints.
+     */
+    public resendBreakpoints(): Promise<void> {
+        return Promise.all(Array.from(this._urlBreakpointRequestsById.values()).map(async request => {
+            try {
+                await this.chrome.Debugger.setBreakpointByUrl(request);
+            } catch (e) {
+                logger.log(`Failed to set breakpoint ${JSON.stringify(request)} again: ${e.message}`);
+            }
+        })).then(() => { });
+    }
+
+    /**
+     * Set all the current breakpoints on a newly attached child target, and keep its breakpoints in sync from now on
+     */
+    public attachChildTarget(childTarget: IChildTargetBreakpointsContext): Promise<void> {
+        this._childTargets.push(childTarget);
+        return Promise.all(Array.from(this._urlBreakpointRequestsById.values())
+            .map(request => this.setUrlBreakpointOnChildTarget(childTarget, request)))
+            .then(() => { });
+    }
+
+    public detachChildTarget(api: Crdp.ProtocolApi): void {
+        this._childTargets = this._childTargets.filter(childTarget => childTarget.api !== api);
+    }
+
+    private async setUrlBreakpointOnChildTarget(childTarget: IChildTargetBreakpointsContext, request: Crdp.Debugger.SetBreakpointByUrlRequest): Promise<void> {
+        try {
+            const result = await childTarget.api.Debugger.setBreakpointByUrl(request);
+
+            // The breakpointResolved event isn't sent for the scripts that were already loaded, so we report those locations ourselves
+            result.locations.forEach(location => this.onBreakpointResolved({ breakpointId: result.breakpointId, location }, childTarget.scripts));
+        } catch (e) {
+            logger.log(`Failed to set breakpoint ${JSON.stringify(request)} on child target: ${e.message}`);
+        }
+    }
+
+    private removeBreakpointFromChildTargets(breakpointId: Crdp.Debugger.BreakpointId): void {
+        this._urlBreakpointRequestsById.delete(breakpointId);
+        this._childTargets.forEach(childTarget => {
+            childTarget.api.Debugger.removeBreakpoint({ breakpointId })
+                .catch(e => logger.log(`Failed to remove breakpoint ${breakpointId} from child target: ${e.message}`));
+        });
+    }
+
+    /**
+     * Set the function breakpoints requested by the client, replacing all the previous ones. Each name is evaluated in the target, and
+     * the breakpoint is set on the function it evaluates to. The names that can't be evaluated yet are bound later, when more scripts run.
+     * Function breakpoints are only set on the main target.
+     */
+    public setFunctionBreakpoints(args: DebugProtocol.SetFunctionBreakpointsArguments): Promise<DebugProtocol.SetFunctionBreakpointsResponse['body']> {
+        const setFunctionBreakpointsP = this._functionBreakpointsQ.then(async () => {
+            await this.removeFunctionBreakpoints();
+
+            this._functionBreakpoints = args.breakpoints.map(bp => ({
+                id: this._breakpointIdHandles.create(this.generateNextUnboundBreakpointId()),
+                name: bp.name,
+                condition: bp.condition,
+                hitCondition: bp.hitCondition
+            }));
+
+            const breakpoints: DebugProtocol.Breakpoint[] = [];
+            for (const functionBreakpoint of this._functionBreakpoints) {
+                breakpoints.push(await this.bindFunctionBreakpoint(functionBreakpoint));
+            }
+
+            breakpoints.forEach(bp => this._clientBreakpointsById.set(bp.id, { ...bp }));
+
+            return { breakpoints };
+        });
+
+        // Swallow errors in the queue so it doesn't get blocked
+        this._functionBreakpointsQ = setFunctionBreakpointsP.catch(() => { });
+        return setFunctionBreakpointsP;
+    }
+
+    public isFunctionBreakpoint(breakpointId: Crdp.Debugger.BreakpointId): boolean {
+        return this._functionBreakpoints.some(functionBreakpoint => functionBreakpoint.breakpointId === breakpointId);
+    }
+
+    private async removeFunctionBreakpoints(): Promise<void> {
+        for (const functionBreakpoint of this._functionBreakpoints) {
+            this._breakpointIdHandles.delete(functionBreakpoint.id);
+            this._clientBreakpointsById.delete(functionBreakpoint.id);
+            if (!functionBreakpoint.breakpointId) {
+                continue;
+            }
+
+            this._hitConditionBreakpointsById.delete(functionBreakpoint.breakpointId);
+            try {
+                await this.chrome.Debugger.removeBreakpoint({ breakpointId: functionBreakpoint.breakpointId });
+            } catch (e) {
+                logger.log(`Failed to remove function breakpoint ${functionBreakpoint.name}: ${e.message}`);
+            }
+        }
+    }
+
+    /**
+     * The functions that the breakpoints were bound to don't exist anymore (e.g. the target navigated), so the breakpoints need to be bound again
+     */
+    private unbindFunctionBreakpoints(): void {
+        for (const functionBreakpoint of this._functionBreakpoints.filter(bp => bp.breakpointId)) {
+            this._hitConditionBreakpointsById.delete(functionBreakpoint.breakpointId);
+            functionBreakpoint.breakpointId = undefined;
+            this._breakpointIdHandles.set(functionBreakpoint.id, this.generateNextUnboundBreakpointId());
+            this.sendBreakpointChanged({
+                id: functionBreakpoint.id,
+                verified: false,
+                message: localize('bp.fail.functionUnbound', 'Function breakpoint not bound yet')
+            });
+        }
+    }
+
+    private scheduleBindFunctionBreakpoints(): void {
+        if (!this._functionBreakpoints.some(functionBreakpoint => !functionBreakpoint.breakpointId)) {
+            return;
+        }
+
+        clearTimeout(this._bindFunctionBreakpointsTimer);
+        this._bindFunctionBreakpointsTimer = setTimeout(() => {
+            this._functionBreakpointsQ = this._functionBreakpointsQ
+                .then(() => this.bindUnboundFunctionBreakpoints())
+                .catch(e => logger.log(`Failed to bind the function breakpoints: ${e.message}`));
+        }, Breakpoints.BIND_FUNCTION_BREAKPOINTS_DELAY);
+    }
+
+    private async bindUnboundFunctionBreakpoints(): Promise<void> {
+        for (const functionBreakpoint of this._functionBreakpoints.filter(bp => !bp.breakpointId)) {
+            const bp = await this.bindFunctionBreakpoint(functionBreakpoint);
+            if (functionBreakpoint.breakpointId) {
+                this.sendBreakpointChanged(bp);
+            }
+        }
+    }
+
+    private async bindFunctionBreakpoint(functionBreakpoint: IFunctionBreakpoint): Promise<DebugProtocol.Breakpoint> {
+        const unverifiedBp = (message: string) => <DebugProtocol.Breakpoint>{ id: functionBreakpoint.id, verified: false, message };
+
+        let breakpointId: Crdp.Debugger.BreakpointId;
+        try {
+            // The name is typed by the user, so don't let it change the state of the target
+            const evalResponse = await this.chrome.Runtime.evaluate({
+                expression: functionBreakpoint.name,
+                silent: true,
+                objectGroup: Breakpoints.FUNCTION_BREAKPOINTS_OBJECT_GROUP,
+                throwOnSideEffect: this.adapter.runtimeCapabilities.isSupported('throwOnSideEffect')
+            });
+            if (evalResponse.exceptionDetails) {
+                return unverifiedBp(localize('bp.fail.functionNotFound', "Can't find function {0} yet", functionBreakpoint.name));
+            }
+
+            if (evalResponse.result.type !== 'function') {
+                return unverifiedBp(localize('bp.fail.notAFunction', '{0} is not a function', functionBreakpoint.name));
+            }
+
+            const response = await this.chrome.Debugger.setBreakpointOnFunctionCall({ objectId: evalResponse.result.objectId, condition: functionBreakpoint.condition });
+            breakpointId = response.breakpointId;
+        } catch (e) {
+            return unverifiedBp(e.message);
+        } finally {
+            this.chrome.Runtime.releaseObjectGroup({ objectGroup: Breakpoints.FUNCTION_BREAKPOINTS_OBJECT_GROUP })
+                .catch(() => { /* ignore failures */ });
+        }
+
+        functionBreakpoint.breakpointId = breakpointId;
+        this._breakpointIdHandles.set(functionBreakpoint.id, breakpointId);
+        if (functionBreakpoint.hitCondition && !this.addHitConditionBreakpoint(functionBreakpoint.hitCondition, breakpointId)) {
+            return unverifiedBp(localize('invalidHitCondition', 'Invalid hit condition: {0}', functionBreakpoint.hitCondition));
+        }
+
+        return { id: functionBreakpoint.id, verified: true };
+    }
+
+    /**
+     * Record a hit of the breakpoints that the runtime paused on, including the hits of hit condition breakpoints that we resume from
+     */
+    public async recordHits(hitBreakpoints: Crdp.Debugger.BreakpointId[], callFrames: Crdp.Debugger.CallFrame[], scripts: ScriptContainer): Promise<void> {
+        // The dormant breakpoints were not hit as far as the user is concerned
+        const ids = hitBreakpoints
+            .map(breakpointId => this._breakpointIdHandles.lookup(breakpointId))
+            .filter(id => !!id && !this._triggers.isDormant(id));
+        if (!ids.length) {
+            return;
+        }
+
+        ids.forEach(id => this.armTriggeredBreakpoints(id));
+
+        const time = Date.now();
+        const stack = await this.summarizeStack(callFrames.map(callFrame => {
+            const script = scripts.getScriptById(callFrame.location.scriptId);
+            return <Crdp.Runtime.CallFrame>{
+                functionName: callFrame.functionName,
+                scriptId: callFrame.location.scriptId,
+                url: script ? script.url : '',
+                lineNumber: callFrame.location.lineNumber,
+                columnNumber: callFrame.location.columnNumber || 0
+            };
+        }));
+        ids.forEach(id => this.recordHit(id, stack, time));
+    }
+
+    /**
+     * Logpoints don't pause, so their hits are recorded from the messages that they log. The frame under the logpoint frame is at the logpoint.
+     * The messages are written to the output file here, so they are written even when the console output is suppressed.
+     */
+    public async recordLogpointHit(event: Crdp.Runtime.ConsoleAPICalledEvent): Promise<void> {
+        const id = this.findLogpointId(event);
+        if (!id || this._triggers.isDormant(id)) {
+            return;
+        }
+
+        this.armTriggeredBreakpoints(id);
+        if (this._logpointOutputFile) {
+            this._logpointOutputFile.write(this.createLogpointOutputEntry(id, event));
+        }
+
+        const time = Date.now();
+        const stack = await this.summarizeStack(event.stackTrace.callFrames.slice(1));
+        this.recordHit(id, stack, time);
+    }
+
+    /**
+     * Whether this message should be shown. A logpoint whose trigger wasn't hit yet is silent, and the messages of the other logpoints
+     * are limited by the rate limit. Messages that weren't logged by a logpoint are always shown.
+     */
+    public shouldShowLogpointMessage(event: Crdp.Runtime.ConsoleAPICalledEvent): boolean {
+        const id = this.findLogpointId(event);
+        if (!id) {
+            return true;
+        }
+
+        if (this._triggers.isDormant(id)) {
+            return false;
+        }
+
+        return this._logpointRateLimiter.shouldShow(id, event.stackTrace.callFrames[1]);
+    }
+
+    /**
+     * @param maxMessagesPerSecond How many messages each logpoint shows per second, 0 to show all of them
+     * @param outputFilePath A file to write the messages of all the logpoints to, including the ones over the rate limit
+     */
+    public setLogpointOutputOptions(maxMessagesPerSecond = LogpointRateLimiter.DEFAULT_MAX_MESSAGES_PER_SECOND, outputFilePath?: string): void {
+        this._logpointRateLimiter.maxMessagesPerSecond = maxMessagesPerSecond;
+
+        // Keep writing to the same file, so a file that is still being closed isn't opened twice
+        const previousOutputFile = this._logpointOutputFile;
+        if (previousOutputFile && previousOutputFile.filePath === outputFilePath) {
+            return;
+        }
+
+        this._logpointOutputFile = outputFilePath ? new LogpointOutputFile(outputFilePath) : undefined;
+        if (previousOutputFile) {
+            previousOutputFile.close()
+                .catch(e => logger.log('Failed to close the logpoint output file: ' + e.message));
+        }
+    }
+
+    /**
+     * Stop the pending binding of the function breakpoints and updates of the breakpoint messages, when the session ends
+     */
+    public cancelPendingUpdates(): void {
+        clearTimeout(this._bindFunctionBreakpointsTimer);
+        this._bindFunctionBreakpointsTimer = undefined;
+        clearTimeout(this._updateHitMessagesTimer);
+        this._updateHitMessagesTimer = undefined;
+        this._hitIdsToUpdate.clear();
+    }
+
+    /**
+     * Report the messages that are still suppressed, and close the output file after the pending messages were written to it
+     */
+    public async closeLogpointOutput(): Promise<void> {
+        this._logpointRateLimiter.flush();
+
+        const outputFile = this._logpointOutputFile;
+        this._logpointOutputFile = undefined;
+        if (outputFile) {
+            await outputFile.close();
+        }
+    }
+
+    private async createLogpointOutputEntry(id: number, event: Crdp.Runtime.ConsoleAPICalledEvent): Promise<ILogpointOutputEntry> {
+        const { source, line, column } = await this.mapCallFrameLocation(event.stackTrace.callFrames[1]);
+        return {
+            timestamp: event.timestamp,
+            breakpointId: id,
+            source: { path: source, line: line + 1, column: column + 1 },
+            values: event.args.slice(1).map(arg => 'value' in arg ? arg.value : getRemoteObjectPreview(arg, /*stringify=*/false))
+        };
+    }
+
+    private async reportSuppressedLogpointMessages(id: number, count: number, callFrame: Crdp.Runtime.CallFrame): Promise<void> {
+        const { source, line } = await this.mapCallFrameLocation(callFrame);
+        const location = `${path.basename(source || '')}:${line + 1}`;
+        this.adapter.session.sendEvent(new OutputEvent(
+            localize('logpoint.suppressed', '{0} messages of the logpoint at {1} were suppressed by the rate limit', count, location) + '\n'));
+    }
+
+    /**
+     * The id of the logpoint that logged this message, or undefined when it wasn't logged by a logpoint
+     */
+    private findLogpointId(event: Crdp.Runtime.ConsoleAPICalledEvent): number | undefined {
+        // Exceptions thrown by conditions and log messages are logged with console.error from the logpoint frame too
+        if (event.type !== 'log' || !isLogpointStack(event.stackTrace) || event.stackTrace.callFrames.length < 2) {
+            return undefined;
+        }
+
+        const callFrame = event.stackTrace.callFrames[1];
+        const breakpointsOnLine = (this.getValueFromCommittedBreakpointsByUrl(callFrame.url) || [])
+            .filter(bp => bp.actualLocation && bp.actualLocation.lineNumber === callFrame.lineNumber);
+        const breakpoint = breakpointsOnLine.find(bp => (bp.actualLocation.columnNumber || 0) === callFrame.columnNumber) || breakpointsOnLine[0];
+        return breakpoint && this._breakpointIdHandles.lookup(breakpoint.breakpointId);
+    }
+
+    public getBreakpointStatistics(): IBreakpointStatisticsResponseBody {
+        return { breakpoints: this._statistics.getStatistics() };
+    }
+
+    private recordHit(id: number, stack: string[], time: number): void {
+        this._statistics.recordHit(id, stack, time);
+        this._hitIdsToUpdate.add(id);
+
+        if (!this._updateHitMessagesTimer) {
+            this._updateHitMessagesTimer = setTimeout(() => {
+                this._updateHitMessagesTimer = undefined;
+                this._hitIdsToUpdate.forEach(hitId => this.sendBreakpointMessage(hitId));
+                this._hitIdsToUpdate.clear();
+            }, Breakpoints.UPDATE_HIT_MESSAGES_DELAY);
+        }
+    }
+
+    private armTriggeredBreakpoints(id: number): void {
+        this._triggers.onHit(id).forEach(dependentId => this.sendBreakpointMessage(dependentId));
+    }
+
+    /**
+     * A dormant breakpoint shows what it waits for, other breakpoints show their hits
+     */
+    private getBreakpointMessage(id: number): string | undefined {
+        return this._triggers.isDormant(id) ?
+            this._triggers.getMessage(id) :
+            this._statistics.getMessage(id) || this._triggers.getMessage(id);
+    }
+
+    private sendBreakpointMessage(id: number): void {
+        const bp = this._clientBreakpointsById.get(id);
+        if (bp) {
+            this.sendBreakpointChanged({ ...bp, message: this.getBreakpointMessage(id) });
+        }
+    }
+
+    private sendBreakpointChanged(bp: DebugProtocol.Breakpoint): void {
+        this._clientBreakpointsById.set(bp.id, { ...bp });
+        this.adapter.session.sendEvent(new BreakpointEvent('changed', bp));
+    }
+
+    /**
+     * Summarize the top frames like `render (app.ts:12:5)`, at their authored location when the script has a source map
+     */
+    private summarizeStack(callFrames: Crdp.Runtime.CallFrame[]): Promise<string[]> {
+        return Promise.all(callFrames.slice(0, Breakpoints.MAX_HIT_STACK_FRAMES).map(async callFrame => {
+            const location = await this.mapCallFrameLocation(callFrame);
+            const functionName = callFrame.functionName || (callFrame.url ? '(anonymous function)' : '(eval code)');
+            return `${functionName} (${path.basename(location.source || '')}:${location.line + 1}:${location.column + 1})`;
+        }));
+    }
+
+    /**
+     * The location of the frame in the client, with 0-based lines and columns. It's the authored location when the script has a source map.
+     */
+    private async mapCallFrameLocation(callFrame: Crdp.Runtime.CallFrame): Promise<{ source: string; line: number; column: number }> {
+        const generatedPath = callFrame.url && (this.adapter.pathTransformer.getClientPathFromTargetPath(callFrame.url) || callFrame.url);
+        const mapped = generatedPath && await this.adapter.sourceMapTransformer.mapToAuthored(generatedPath, callFrame.lineNumber, callFrame.columnNumber);
+        return mapped && mapped.source ?
+            mapped :
+            { source: generatedPath, line: callFrame.lineNumber, column: callFrame.columnNumber };
+    }
+
+    /**
+     * Resume when all the breakpoints that were hit are waiting for their trigger, unless we broke for some user action (step, pause button)
+     */
+    public handleDormantBreakpoints(expectingStopReason: ReasonType, hitBreakpoints: Crdp.Debugger.BreakpointId[], api = this.chrome): { didPause: boolean } | null {
+        const ids = hitBreakpoints.map(breakpointId => this._breakpointIdHandles.lookup(breakpointId));
+        if (!expectingStopReason && ids.every(id => !!id && this._triggers.isDormant(id))) {
+            api.Debugger.resume()
+                .catch(() => { /* ignore failures */ });
+            return { didPause: false };
+        }
+
+        return null;
+    }
+
+    /**
+     * The ids of the snapshot points that were hit, or undefined when a breakpoint that should pause was hit too
+     */
+    public getHitSnapshotPointIds(hitBreakpoints: Crdp.Debugger.BreakpointId[]): number[] | undefined {
+        const ids = hitBreakpoints.map(breakpointId => this._breakpointIdHandles.lookup(breakpointId));
+        return ids.every(id => this._snapshotPointIds.has(id)) ? ids : undefined;
+    }
+
+    public handleHitCountBreakpoints(expectingStopReason: ReasonType, hitBreakpoints, api = this.chrome) {
         // Did we hit a hit condition breakpoint?
         for (let hitBp of hitBreakpoints) {
             if (this._hitConditionBreakpointsById.has(hitBp)) {
@@ -607,7 +1257,7 @@ export class Breakpoints {
                 hitConditionBp.numHits++;
                 // Only resume if we didn't break for some user action (step, pause button)
                 if (!expectingStopReason && !hitConditionBp.shouldPause(hitConditionBp.numHits)) {
-                    this.chrome.Debugger.resume()
+                    api.Debugger.resume()
                         .catch(() => { /* ignore failures */ });
                     return { didPause: false };
                 }
@@ -0,0 +1,446 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { ThreadEvent, ContinuedEvent, OutputEvent, logger } from 'vscode-debugadapter';
+import { DebugProtocol } from 'vscode-debugprotocol';
+import { Protocol as Crdp } from 'devtools-protocol';
+
+import { ChromeDebugAdapter, Transformers } from './chromeDebugAdapter';
+import { ChromeConnection } from './chromeConnection';
+import { Breakpoints } from './breakpoints';
+import { ScriptSkipper } from './scriptSkipping';
+import { ScriptContainer } from './scripts';
+import { StackFrames } from './stackFrames';
+import { AsyncStepper, StepRequest } from './asyncStep';
+import { VariablesManager } from './variablesManager';
+import { StoppedEvent2, ReasonType } from './stoppedEvent';
+import { formatConsoleArguments, formatExceptionDetails } from './consoleHelper';
+import { LoggedObjects } from './variables';
+import * as ChromeUtils from './chromeUtils';
+import * as utils from '../utils';
+
+export interface IChildTargetsOptions {
+    asyncCallStackDepth: number;
+    suppressConsoleOutput: boolean;
+    asyncStepping: boolean;
+
+    /** Workers, iframes, etc... */
+    attachToChildTargets: boolean;
+
+    /** Popups and tabs opened by the debugged pages */
+    attachToChildPages: boolean;
+}
+
+/**
+ * A worker, iframe, etc... which was attached through Target.setAutoAttach, or a page opened by a debugged page,
+ * and is exposed to the client as its own thread
+ */
+export class ChildTarget {
+    /**
+     * Each child target owns the range [threadId * HANDLE_RANGE, (threadId + 1) * HANDLE_RANGE) of frame ids, variable
+     * references and source references, so we can tell which target a request from the client is for.
+     */
+    public static HANDLE_RANGE = 1e6;
+
+    public readonly scripts: ScriptContainer;
+    public readonly stackFrames: StackFrames;
+    public readonly variablesManager: VariablesManager;
+    public readonly asyncStepper: AsyncStepper;
+
+    public pauseEvent: Crdp.Debugger.PausedEvent;
+    public exception: Crdp.Runtime.RemoteObject;
+    public expectingStopReason: ReasonType;
+    public expectingResumedEvent = false;
+
+    constructor(
+        public readonly threadId: number,
+        public readonly sessionId: string,
+        public readonly targetInfo: Crdp.Target.TargetInfo,
+        public readonly api: Crdp.ProtocolApi,
+        asyncStepping: boolean) {
+
+        const handleOffset = threadId * ChildTarget.HANDLE_RANGE;
+        this.scripts = new ScriptContainer(handleOffset + 1000);
+        this.stackFrames = new StackFrames(handleOffset + 1000);
+        this.variablesManager = new VariablesManager({ api }, handleOffset);
+        this.asyncStepper = new AsyncStepper(asyncStepping);
+    }
+
+    public get name(): string {
+        return `${this.targetInfo.type}: ${this.targetInfo.title || this.targetInfo.url}`;
+    }
+
+    public ownsHandle(handle: number): boolean {
+        return Math.floor(handle / ChildTarget.HANDLE_RANGE) === this.threadId;
+    }
+}
+
+/**
+ * Attaches to the child targets of the main target (and to their own child targets), and handles their debugging events
+ */
+export class ChildTargets {
+    private static SUPPORTED_TARGET_TYPES = ['worker', 'shared_worker', 'service_worker', 'iframe'];
+
+    private _nextThreadId = 2; // The main target is thread 1
+    private _childTargetsBySessionId = new Map<string, ChildTarget>();
+    private _childPageIdsBeingAttached = new Set<string>();
+    private _browserSessionId: string | undefined;
+    private _options: IChildTargetsOptions;
+    private _pauseOnExceptionsState: 'none' | 'uncaught' | 'all';
+
+    private get chrome() { return this._chromeConnection.api; }
+
+    private get transformers(): Transformers {
+        return {
+            lineColTransformer: this._adapter.lineColTransformer,
+            sourceMapTransformer: this._adapter.sourceMapTransformer,
+            pathTransformer: this._adapter.pathTransformer
+        };
+    }
+
+    constructor(
+        private readonly _adapter: ChromeDebugAdapter,
+        private readonly _chromeConnection: ChromeConnection,
+        private readonly _breakpoints: Breakpoints,
+        private readonly _scriptSkipper: ScriptSkipper) {
+    }
+
+    public get targets(): ChildTarget[] {
+        return Array.from(this._childTargetsBySessionId.values());
+    }
+
+    public getByThreadId(threadId: number): ChildTarget | undefined {
+        return this.targets.find(target => target.threadId === threadId);
+    }
+
+    /**
+     * Find the child target that created a frame id, variables reference or source reference
+     */
+    public getByHandle(handle: number): ChildTarget | undefined {
+        return typeof handle === 'number' ?
+            this.targets.find(target => target.ownsHandle(handle)) :
+            undefined;
+    }
+
+    public async enable(options: IChildTargetsOptions): Promise<void> {
+        this._options = options;
+        this.chrome.Target.on('attachedToTarget', params => this.onAttachedToTarget(params));
+        this.chrome.Target.on('detachedFromTarget', params => this.onDetachedFromTarget(params));
+
+        if (options.attachToChildTargets) {
+            await this.autoAttach(this.chrome);
+        }
+
+        if (options.attachToChildPages) {
+            await this.autoAttachToChildPages();
+        }
+    }
+
+    /**
+     * Forget all the child targets, e.g. because the connection to the main target was lost
+     */
+    public reset(): void {
+        this.targets.forEach(target => {
+            this._chromeConnection.closeSessionApi(target.sessionId);
+            this._breakpoints.detachChildTarget(target.api);
+            this._adapter.session.sendEvent(new ThreadEvent('exited', target.threadId));
+        });
+
+        this._childTargetsBySessionId.clear();
+        this._childPageIdsBeingAttached.clear();
+        this.closeBrowserSession();
+    }
+
+    public setPauseOnExceptions(state: 'none' | 'uncaught' | 'all'): Promise<void> {
+        this._pauseOnExceptionsState = state;
+        return Promise.all(this.targets.map(target => target.api.Debugger.setPauseOnExceptions({ state })))
+            .then(() => { });
+    }
+
+    public continue(target: ChildTarget): Promise<void> {
+        target.expectingResumedEvent = true;
+        return target.api.Debugger.resume()
+            .then(() => { /* make void */ },
+                () => { /* ignore failures - client can send the request when the target is no longer paused */ });
+    }
+
+    public step(target: ChildTarget, stepRequest: StepRequest): Promise<void> {
+        target.expectingStopReason = 'step';
+        target.expectingResumedEvent = true;
+        return stepRequest(target.api)
+            .then(() => { /* make void */ },
+                () => { /* ignore failures - client can send the request when the target is no longer paused */ });
+    }
+
+    public pause(target: ChildTarget): Promise<void> {
+        target.expectingStopReason = 'pause';
+        return target.api.Debugger.pause()
+            .then(() => { });
+    }
+
+    private async autoAttach(api: Crdp.ProtocolApi): Promise<void> {
+        await api.Target.setAutoAttach({ autoAttach: true, waitForDebuggerOnStart: true, flatten: true });
+    }
+
+    /**
+     * Popups aren't auto attached by the page like workers and iframes are. The browser target auto attaches to all the pages,
+     * and pauses the new ones until their breakpoints are set. When the runtime doesn't expose the browser target, we follow
+     * the new targets ourselves, and can only attach to the pages after they started running.
+     */
+    private async autoAttachToChildPages(): Promise<void> {
+        try {
+            const { sessionId } = await this.chrome.Target.attachToBrowserTarget();
+            this._browserSessionId = sessionId;
+            const browserApi = this._chromeConnection.getSessionApi(sessionId);
+            browserApi.Target.on('attachedToTarget', params => this.onAttachedToBrowserTarget(browserApi, params));
+            browserApi.Target.on('detachedFromTarget', params => this.onDetachedFromTarget(params));
+            await browserApi.Target.setAutoAttach({ autoAttach: true, waitForDebuggerOnStart: true, flatten: true });
+        } catch (e) {
+            logger.log(`ChildTargets: Couldn't auto attach to the pages through the browser target: ${e.message}`);
+            this.closeBrowserSession();
+
+            this.chrome.Target.on('targetCreated', params => this.onTargetCreated(params.targetInfo));
+            await this.chrome.Target.setDiscoverTargets({ discover: true });
+        }
+    }
+
+    private async onAttachedToBrowserTarget(browserApi: Crdp.ProtocolApi, params: Crdp.Target.AttachedToTargetEvent): Promise<void> {
+        if (this.isChildPage(params.targetInfo)) {
+            this._childPageIdsBeingAttached.add(params.targetInfo.targetId);
+            return this.onAttachedToTarget(params);
+        }
+
+        // The browser target attaches to every page, let the ones that the debugged pages didn't open go
+        const api = this._chromeConnection.getSessionApi(params.sessionId);
+        await this.runIfWaitingForDebugger(api, params);
+        this._chromeConnection.closeSessionApi(params.sessionId);
+        await browserApi.Target.detachFromTarget({ sessionId: params.sessionId })
+            .catch(e => logger.log(`ChildTargets: Couldn't detach from ${params.targetInfo.url}: ${e.message}`));
+    }
+
+    private closeBrowserSession(): void {
+        if (this._browserSessionId) {
+            this._chromeConnection.closeSessionApi(this._browserSessionId);
+            this._browserSessionId = undefined;
+        }
+    }
+
+    private onTargetCreated(targetInfo: Crdp.Target.TargetInfo): void {
+        if (this.isChildPage(targetInfo)) {
+            this._childPageIdsBeingAttached.add(targetInfo.targetId);
+            this.chrome.Target.attachToTarget({ targetId: targetInfo.targetId, flatten: true })
+                .catch(e => {
+                    this._childPageIdsBeingAttached.delete(targetInfo.targetId);
+                    logger.log(`ChildTargets: Couldn't attach to the page ${targetInfo.url}: ${e.message}`);
+                });
+        }
+    }
+
+    private isChildPage(targetInfo: Crdp.Target.TargetInfo): boolean {
+        return targetInfo.type === 'page' && !!targetInfo.openerId && this.isDebuggedPage(targetInfo.openerId);
+    }
+
+    /**
+     * Whether the target is the main target or a page we attached to, so the pages it opens should be attached too
+     */
+    private isDebuggedPage(targetId: string): boolean {
+        const mainTarget = this._chromeConnection.attachedTarget;
+        return (mainTarget && mainTarget.id === targetId) ||
+            this.targets.some(target => target.targetInfo.type === 'page' && target.targetInfo.targetId === targetId);
+    }
+
+    private async onAttachedToTarget(params: Crdp.Target.AttachedToTargetEvent): Promise<void> {
+        const api = this._chromeConnection.getSessionApi(params.sessionId);
+        const isChildPage = this._childPageIdsBeingAttached.delete(params.targetInfo.targetId);
+        if (!isChildPage && ChildTargets.SUPPORTED_TARGET_TYPES.indexOf(params.targetInfo.type) < 0) {
+            logger.log(`ChildTargets: Ignoring target ${params.targetInfo.targetId} of type ${params.targetInfo.type}`);
+            await this.runIfWaitingForDebugger(api, params);
+            this._chromeConnection.closeSessionApi(params.sessionId);
+            return;
+        }
+
+        const target = new ChildTarget(this._nextThreadId++, params.sessionId, params.targetInfo, api, this._options.asyncStepping);
+        this._childTargetsBySessionId.set(params.sessionId, target);
+        logger.log(`ChildTargets: Attached to ${target.name} as thread ${target.threadId}`);
+
+        this.hookTargetEvents(target);
+        try {
+            await Promise.all([
+                api.Runtime.enable(),
+                api.Debugger.enable()
+            ]);
+
+            await api.Debugger.setAsyncCallStackDepth({ maxDepth: this._options.asyncCallStackDepth })
+                .catch(() => { /* Not supported by older runtimes, ignore it */ });
+            if (this._pauseOnExceptionsState) {
+                await api.Debugger.setPauseOnExceptions({ state: this._pauseOnExceptionsState });
+            }
+
+            await this._scriptSkipper.applyBlackboxPatterns(api);
+            if (this._options.attachToChildTargets) {
+                api.Target.on('attachedToTarget', params => this.onAttachedToTarget(params));
+                api.Target.on('detachedFromTarget', params => this.onDetachedFromTarget(params));
+                await this.autoAttach(api)
+                    .catch(e => logger.log(`ChildTargets: Couldn't auto attach to the children of ${target.name}: ${e.message}`));
+            }
+            await this._breakpoints.attachChildTarget({ api, scripts: target.scripts });
+        } catch (e) {
+            logger.error(`ChildTargets: Failed to configure ${target.name}: ${e.message}`);
+        }
+
+        this._adapter.session.sendEvent(new ThreadEvent('started', target.threadId));
+        await this.runIfWaitingForDebugger(api, params);
+    }
+
+    private async runIfWaitingForDebugger(api: Crdp.ProtocolApi, params: Crdp.Target.AttachedToTargetEvent): Promise<void> {
+        if (params.waitingForDebugger) {
+            await api.Runtime.runIfWaitingForDebugger()
+                .catch(e => logger.log(`ChildTargets: runIfWaitingForDebugger failed: ${e.message}`));
+        }
+    }
+
+    private onDetachedFromTarget(params: Crdp.Target.DetachedFromTargetEvent): void {
+        const target = this._childTargetsBySessionId.get(params.sessionId);
+        if (target) {
+            this._childTargetsBySessionId.delete(params.sessionId);
+            this._chromeConnection.closeSessionApi(params.sessionId);
+            this._breakpoints.detachChildTarget(target.api);
+            this._adapter.session.sendEvent(new ThreadEvent('exited', target.threadId));
+        }
+    }
+
+    private hookTargetEvents(target: ChildTarget): void {
+        target.api.Debugger.on('paused', params => this.onPaused(target, params)
+            .catch(e => logger.error(`ChildTargets: Failed to process the pause of thread ${target.threadId}: ${e.message}`)));
+        target.api.Debugger.on('resumed', () => this.onResumed(target));
+        target.api.Debugger.on('scriptParsed', params => this.onScriptParsed(target, params)
+            .catch(e => logger.error(`ChildTargets: Failed to process script ${params.url}: ${e.message}`)));
+        target.api.Debugger.on('breakpointResolved', params => this._breakpoints.onBreakpointResolved(params, target.scripts));
+        target.api.Runtime.on('consoleAPICalled', params => this.onConsoleAPICalled(target, params));
+        target.api.Runtime.on('exceptionThrown', params => this.onExceptionThrown(target, params)
+            .catch(e => logger.error(`ChildTargets: Failed to process the exception of thread ${target.threadId}: ${e.message}`)));
+    }
+
+    private async onPaused(target: ChildTarget, notification: Crdp.Debugger.PausedEvent): Promise<void> {
+        if (notification.asyncCallStackTraceId) {
+            await target.api.Debugger.pauseOnAsyncCall({ parentStackTraceId: notification.asyncCallStackTraceId });
+            await target.api.Debugger.resume();
+            return;
+        }
+
+        target.variablesManager.onPaused();
+        target.stackFrames.reset();
+        target.exception = undefined;
+        target.pauseEvent = notification;
+
+        const asyncStep = target.asyncStepper.onPaused(notification);
+        if (asyncStep) {
+            await this.step(target, asyncStep);
+            return;
+        }
+
+        // The exception filters, skipFiles, snapshot points and smart stepping are decided like on the main target
+        let reason: ReasonType;
+        if (notification.reason === 'exception' || notification.reason === 'promiseRejection') {
+            if (!await this._adapter.shouldStopOnException(notification, target)) {
+                target.api.Debugger.resume()
+                    .catch(() => { /* ignore failures */ });
+                return;
+            }
+
+            reason = notification.reason === 'exception' ? 'exception' : 'promise_rejection';
+            target.exception = notification.data;
+        } else if (notification.hitBreakpoints && notification.hitBreakpoints.length) {
+            reason = 'breakpoint';
+            this._breakpoints.recordHits(notification.hitBreakpoints, notification.callFrames, target.scripts)
+                .catch(e => logger.log('Failed to record the breakpoint hits: ' + e.message));
+            if (this._breakpoints.handleDormantBreakpoints(target.expectingStopReason, notification.hitBreakpoints, target.api) ||
+                this._breakpoints.handleHitCountBreakpoints(target.expectingStopReason, notification.hitBreakpoints, target.api)) {
+                return;
+            }
+
+            const snapshotPointIds = !target.expectingStopReason && this._breakpoints.getHitSnapshotPointIds(notification.hitBreakpoints);
+            if (snapshotPointIds) {
+                await this._adapter.takeSnapshot(snapshotPointIds, notification, target)
+                    .catch(e => logger.error('Failed to take a snapshot: ' + e.message));
+                target.api.Debugger.resume()
+                    .catch(() => { /* ignore failures */ });
+                return;
+            }
+        } else if (target.expectingStopReason) {
+            if (await this._adapter.shouldSmartStepCallFrame(notification.callFrames[0], target)) {
+                await this.step(target, api => api.Debugger.stepInto({}));
+                return;
+            }
+
+            reason = target.expectingStopReason;
+        } else {
+            reason = 'debugger_statement';
+        }
+
+        target.expectingStopReason = undefined;
+        this._adapter.session.sendEvent(new StoppedEvent2(reason, target.threadId, target.exception));
+    }
+
+    private onResumed(target: ChildTarget): void {
+        target.pauseEvent = null;
+
+        if (target.expectingResumedEvent) {
+            target.expectingResumedEvent = false;
+        } else {
+            this._adapter.session.sendEvent(new ContinuedEvent(target.threadId));
+        }
+    }
+
+    private async onScriptParsed(target: ChildTarget, script: Crdp.Debugger.ScriptParsedEvent): Promise<void> {
+        // The stack trace and hash can be large and the DA doesn't need it.
+        delete script.stackTrace;
+        delete script.hash;
+
+        if (script.url) {
+            script.url = utils.fixDriveLetter(script.url);
+        } else {
+            script.url = ChromeUtils.EVAL_NAME_PREFIX + script.scriptId;
+        }
+
+        target.scripts.add(script);
+
+        const mappedUrl = await this._adapter.pathTransformer.scriptParsed(script.url);
+        const sources = await this._adapter.sourceMapTransformer.scriptParsed(mappedUrl, script.url, script.sourceMapURL);
+        await this._breakpoints.handleScriptParsed(script, target.scripts, mappedUrl, sources);
+    }
+
+    private onConsoleAPICalled(target: ChildTarget, event: Crdp.Runtime.ConsoleAPICalledEvent): void {
+        this._breakpoints.recordLogpointHit(event)
+            .catch(e => logger.log('Failed to record the logpoint hit: ' + e.message));
+
+        if (this._options.suppressConsoleOutput || !this._breakpoints.shouldShowLogpointMessage(event)) {
+            return;
+        }
+
+        const result = formatConsoleArguments(event.type, event.args, event.stackTrace);
+        if (result) {
+            const category = result.isError ? 'stderr' : 'stdout';
+            let e: DebugProtocol.OutputEvent;
+            if (result.args.length === 1 && result.args[0].type === 'string') {
+                e = new OutputEvent(result.args[0].value + '\n', category);
+            } else {
+                e = new OutputEvent('output', category);
+                e.body.variablesReference = target.variablesManager.createHandle(new LoggedObjects(result.args), 'repl');
+            }
+
+            this._adapter.session.sendEvent(e);
+        }
+    }
+
+    private async onExceptionThrown(target: ChildTarget, params: Crdp.Runtime.ExceptionThrownEvent): Promise<void> {
+        if (this._options.suppressConsoleOutput) {
+            return;
+        }
+
+        const formattedException = formatExceptionDetails(params.exceptionDetails);
+        const exceptionStr = await target.stackFrames.mapFormattedException(formattedException, this.transformers);
+        this._adapter.session.sendEvent(new OutputEvent(exceptionStr + '\n', 'stderr'));
+    }
+}
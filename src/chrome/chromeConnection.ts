@@ -16,7 +16,11 @@ import { Client, LikeSocket } from 'noice-json-rpc';
 import { Protocol as Crdp } from 'devtools-protocol';
 
 import { CRDPMultiplexor } from './crdpMultiplexing/crdpMultiplexor';
-import { WebSocketToLikeSocketProxy } from './crdpMultiplexing/webSocketToLikeSocketProxy';
+import { WebSocketToLikeSocketProxy, IExtraCRDPChannel } from './crdpMultiplexing/webSocketToLikeSocketProxy';
+import { SessionSocket } from './crdpMultiplexing/sessionSocket';
+import { CrdpTrafficRecorder } from './crdpRecording/crdpTrafficRecorder';
+import { ReplaySocket, isReplayUrl, replayUrlToRecordingPath } from './crdpRecording/crdpReplay';
+import { PipeSocket, IPipeStreams } from './pipeSocket';
 
 export interface ITarget {
     description: string;
@@ -31,16 +35,44 @@ export interface ITarget {
 }
 
 export type ITargetFilter = (target: ITarget) => boolean;
+
+/**
+ * Chooses which target to attach to when several targets match the filter and url
+ */
+export interface ITargetPicker {
+    pickTarget(targets: ITarget[]): Promise<ITarget>;
+}
+
+/**
+ * Keep polling the targets list until a target that matches the filter and url appears, instead of failing when it doesn't exist yet
+ */
+export interface IWaitForTargetOptions {
+    /** The delay between two polls of the targets list, in ms */
+    interval?: number;
+
+    /** How long to wait for a matching target before failing, in ms */
+    timeout?: number;
+}
+
+/**
+ * The parts of a WebSocket that ChromeConnection uses, so that other transports (e.g. pipes) can be used instead
+ */
+export interface ITransportSocket extends LikeSocket {
+    readonly readyState: number;
+    close(): void;
+    once(event: string, cb: Function): any;
+}
+
 export interface ITargetDiscoveryStrategy {
-    getTarget(address: string, port: number, targetFilter?: ITargetFilter, targetUrl?: string): Promise<ITarget>;
-    getAllTargets(address: string, port: number, targetFilter?: ITargetFilter, targetUrl?: string): Promise<ITarget[]>;
+    getTarget(address: string, port: number, targetFilter?: ITargetFilter, targetUrl?: string, waitForTarget?: IWaitForTargetOptions): Promise<ITarget>;
+    getAllTargets(address: string, port: number, targetFilter?: ITargetFilter, targetUrl?: string, waitForTarget?: IWaitForTargetOptions): Promise<ITarget[]>;
 }
 
 /**
  * A subclass of WebSocket that logs all traffic
  */
 class LoggingSocket extends WebSocket {
-    constructor(address: string, protocols?: string | string[], options?: WebSocket.ClientOptions) {
+    constructor(address: string, protocols?: string | string[], options?: WebSocket.ClientOptions, private readonly _trafficRecorder?: CrdpTrafficRecorder) {
         super(address, protocols, options);
 
         this.on('error', e => {
@@ -52,6 +84,10 @@ class LoggingSocket extends WebSocket {
         });
 
         this.on('message', msgStr => {
+            if (this._trafficRecorder) {
+                this._trafficRecorder.record('fromTarget', msgStr.toString());
+            }
+
             let msgObj: any;
             try {
                 msgObj = JSON.parse(msgStr.toString());
@@ -82,6 +118,9 @@ class LoggingSocket extends WebSocket {
 
         super.send.apply(this, arguments);
         logger.verbose('→ To target: ' + msgStr);
+        if (this._trafficRecorder) {
+            this._trafficRecorder.record('toTarget', data.toString());
+        }
     }
 }
 
@@ -97,12 +136,22 @@ export interface IChromeError {
 export class ChromeConnection implements IObservableEvents<IStepStartedEventsEmitter> {
     protected static ATTACH_TIMEOUT = 10000; // ms
 
-    private _socket: WebSocket;
+    private _socket: ITransportSocket;
     private _crdpSocketMultiplexor: CRDPMultiplexor;
+
+    // Created on the first connection, and pointed at the new connection when we reconnect, so their ports stay the same
+    private _crdpChannelProxies: WebSocketToLikeSocketProxy[];
+    private _debuggerSocket: LikeSocket;
     private _client: Client;
+    private _sessionSockets = new Map<string, SessionSocket>();
     private _targetFilter: ITargetFilter;
+    private _waitForTarget: IWaitForTargetOptions;
+    private _targetPicker: ITargetPicker;
+    private _extraCRDPChannels: IExtraCRDPChannel[] = [];
     private _targetDiscoveryStrategy: ITargetDiscoveryStrategy & IObservableEvents<IStepStartedEventsEmitter>;
     private _attachedTarget: ITarget;
+    private _reattach: (timeout?: number) => Promise<void>;
+    private _trafficRecorder: CrdpTrafficRecorder;
     public readonly events: StepProgressEventsEmitter;
 
     constructor(targetDiscovery?: ITargetDiscoveryStrategy & IObservableEvents<IStepStartedEventsEmitter>, targetFilter?: ITargetFilter) {
@@ -125,44 +174,163 @@ export class ChromeConnection implements IObservableEvents<IStepStartedEventsEmi
         this._targetFilter = targetFilter;
     }
 
+    public setWaitForTarget(waitForTarget?: IWaitForTargetOptions) {
+        this._waitForTarget = waitForTarget;
+    }
+
+    public setTargetPicker(targetPicker?: ITargetPicker) {
+        this._targetPicker = targetPicker;
+    }
+
+    /**
+     * Offer these channels of the CRDP connection through websocket ports, in addition to the extraCRDPChannelPort passed when attaching
+     */
+    public setExtraCRDPChannels(extraCRDPChannels: IExtraCRDPChannel[] = []) {
+        this._extraCRDPChannels = extraCRDPChannels;
+    }
+
+    /**
+     * Record all the CRDP messages of the connections created from now on to a file, which can be replayed with ReplayTargetDiscovery
+     */
+    public recordTrafficTo(filePath: string): void {
+        if (this._trafficRecorder) {
+            this._trafficRecorder.close();
+        }
+
+        this._trafficRecorder = new CrdpTrafficRecorder(filePath);
+    }
+
     /**
      * Attach the websocket to the first available tab in the chrome instance with the given remote debugging port number.
      */
     public attach(address = '127.0.0.1', port = 9222, targetUrl?: string, timeout?: number, extraCRDPChannelPort?: number): Promise<void> {
+        this._reattach = reattachTimeout => this._attach(address, port, targetUrl, reattachTimeout, extraCRDPChannelPort);
         return this._attach(address, port, targetUrl, timeout, extraCRDPChannelPort)
             .then(() => { });
     }
 
     public attachToWebsocketUrl(wsUrl: string, extraCRDPChannelPort?: number): void {
+        this._reattach = (reattachTimeout = ChromeConnection.ATTACH_TIMEOUT) => {
+            return utils.retryAsync(() => {
+                this.connectToWebsocketUrl(wsUrl, extraCRDPChannelPort);
+                return this.waitForSocketOpen();
+            }, reattachTimeout, /*intervalDelay=*/200)
+                .catch(err => Promise.reject(errors.runtimeConnectionTimeout(reattachTimeout, err.message)));
+        };
+        this.connectToWebsocketUrl(wsUrl, extraCRDPChannelPort);
+    }
+
+    /**
+     * Attach to a target that was launched with --remote-debugging-pipe. A pipe can't be reopened, so this connection can't reconnect.
+     */
+    public attachToPipe(pipe: IPipeStreams, extraCRDPChannelPort?: number): void {
+        this._reattach = () => Promise.reject(new Error('Cannot reconnect to a target attached through a pipe'));
+
+        /* __GDPR__FRAGMENT__
+           "StepNames" : {
+              "Attach.AttachToTargetDebuggerPipe" : { "classification": "SystemMetaData", "purpose": "FeatureInsight" }
+           }
+         */
+        this.events.emitStepStarted('Attach.AttachToTargetDebuggerPipe');
+        this.connectToSocket(new PipeSocket(pipe, this._trafficRecorder), extraCRDPChannelPort);
+    }
+
+    /**
+     * Discover the target again with the same parameters that were used to attach to it, and attach to it with a new websocket.
+     * Used to recover when the websocket is closed, e.g. because the runtime was restarted.
+     */
+    public reconnect(timeout?: number): Promise<void> {
+        if (!this._reattach) {
+            return Promise.reject(new Error('Cannot reconnect, the connection was never attached'));
+        }
+
+        return this._reattach(timeout);
+    }
+
+    private connectToWebsocketUrl(wsUrl: string, extraCRDPChannelPort?: number): void {
         /* __GDPR__FRAGMENT__
            "StepNames" : {
               "Attach.AttachToTargetDebuggerWebsocket" : { "classification": "SystemMetaData", "purpose": "FeatureInsight" }
            }
          */
         this.events.emitStepStarted('Attach.AttachToTargetDebuggerWebsocket');
-        this._socket = new LoggingSocket(wsUrl, undefined, { headers: { Host: 'localhost' }});
-        if (extraCRDPChannelPort) {
-            this._crdpSocketMultiplexor = new CRDPMultiplexor(this._socket as any as LikeSocket);
-            new WebSocketToLikeSocketProxy(extraCRDPChannelPort, this._crdpSocketMultiplexor.addChannel('extraCRDPEndpoint')).start();
-            this._client = new Client(this._crdpSocketMultiplexor.addChannel('debugger'));
+        const socket = isReplayUrl(wsUrl) ?
+            ReplaySocket.fromRecording(replayUrlToRecordingPath(wsUrl)) :
+            <ITransportSocket><any>new LoggingSocket(wsUrl, undefined, { headers: { Host: 'localhost' }}, this._trafficRecorder);
+        this.connectToSocket(socket, extraCRDPChannelPort);
+    }
+
+    private connectToSocket(socket: ITransportSocket, extraCRDPChannelPort?: number): void {
+        this._socket = socket;
+        const extraCRDPChannels = extraCRDPChannelPort ?
+            [{ name: 'extraCRDPEndpoint', port: extraCRDPChannelPort }, ...this._extraCRDPChannels] :
+            this._extraCRDPChannels;
+        if (extraCRDPChannels.length) {
+            this._crdpSocketMultiplexor = new CRDPMultiplexor(this._socket);
+            const channelSockets = extraCRDPChannels.map(channel => this._crdpSocketMultiplexor.addChannel(channel.name));
+            if (this._crdpChannelProxies) {
+                this._crdpChannelProxies.forEach((proxy, i) => proxy.setSocket(channelSockets[i]));
+            } else {
+                this._crdpChannelProxies = extraCRDPChannels.map((channel, i) => new WebSocketToLikeSocketProxy(channel.port, channelSockets[i], channel));
+                this._crdpChannelProxies.forEach(proxy => proxy.start());
+            }
+
+            this._debuggerSocket = this._crdpSocketMultiplexor.addChannel('debugger');
         } else {
-            this._client = new Client(<WebSocket>this._socket as any);
+            this._debuggerSocket = this._socket;
         }
 
+        // Messages from child targets' sessions must not reach the client of the root target
+        this._client = new Client(new SessionSocket(this._debuggerSocket));
         this._client.on('error', e => logger.error('Error handling message from target: ' + e.message));
     }
 
+    /**
+     * Get an api for a child target that was attached in flattened mode (e.g. with Target.setAutoAttach({ flatten: true }))
+     */
+    public getSessionApi(sessionId: string): Crdp.ProtocolApi {
+        const sessionSocket = new SessionSocket(this._debuggerSocket, sessionId);
+        this._sessionSockets.set(sessionId, sessionSocket);
+
+        const sessionClient = new Client(sessionSocket);
+        sessionClient.on('error', e => logger.error(`Error handling message from target session ${sessionId}: ${e.message}`));
+        return sessionClient.api();
+    }
+
+    /**
+     * Stop handling the messages of a child target's session, after it was detached
+     */
+    public closeSessionApi(sessionId: string): void {
+        const sessionSocket = this._sessionSockets.get(sessionId);
+        if (sessionSocket) {
+            sessionSocket.close();
+            this._sessionSockets.delete(sessionId);
+        }
+    }
+
     public getAllTargets(address = '127.0.0.1', port = 9222, targetFilter?: ITargetFilter, targetUrl?: string): Promise<ITarget[]> {
         return this._targetDiscoveryStrategy.getAllTargets(address, port, targetFilter, targetUrl);
     }
 
     private _attach(address: string, port: number, targetUrl?: string, timeout = ChromeConnection.ATTACH_TIMEOUT, extraCRDPChannelPort?: number): Promise<void> {
         let selectedTarget: ITarget;
-        return utils.retryAsync(() => this._targetDiscoveryStrategy.getTarget(address, port, this._targetFilter, targetUrl), timeout, /*intervalDelay=*/200)
-            .catch(err => Promise.reject(errors.runtimeConnectionTimeout(timeout, err.message)))
+        // With a target picker we need all the candidates, otherwise the discovery strategy chooses the target
+        const discoverTargets = (waitForTarget?: IWaitForTargetOptions): Promise<ITarget[]> => this._targetPicker ?
+            this._targetDiscoveryStrategy.getAllTargets(address, port, this._targetFilter, targetUrl, waitForTarget) :
+            this._targetDiscoveryStrategy.getTarget(address, port, this._targetFilter, targetUrl, waitForTarget).then(target => [target]);
+
+        // When waiting for the target, the discovery strategy does the polling with its own interval and timeout
+        const getTargets: Promise<ITarget[]> = this._waitForTarget ?
+            discoverTargets(this._waitForTarget) :
+            utils.retryAsync(() => discoverTargets(), timeout, /*intervalDelay=*/200)
+                .catch(err => Promise.reject(errors.runtimeConnectionTimeout(timeout, err.message)));
+
+        // Pick outside of the retries, so the user is asked only once
+        return getTargets
+            .then(targets => targets.length > 1 ? this._targetPicker.pickTarget(targets) : targets[0])
             .then(target => {
                 selectedTarget = target;
-                return this.attachToWebsocketUrl(target.webSocketDebuggerUrl, extraCRDPChannelPort);
+                return this.connectToWebsocketUrl(target.webSocketDebuggerUrl, extraCRDPChannelPort);
             }).then(() => {
                 this._attachedTarget = selectedTarget;
             });
@@ -180,6 +348,25 @@ export class ChromeConnection implements IObservableEvents<IStepStartedEventsEmi
 
     public close(): void {
         this._socket.close();
+        if (this._crdpChannelProxies) {
+            this._crdpChannelProxies.forEach(proxy => proxy.close());
+            this._crdpChannelProxies = undefined;
+        }
+
+        if (this._trafficRecorder) {
+            this._trafficRecorder.close();
+        }
+    }
+
+    private waitForSocketOpen(): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            if (this._socket.readyState === WebSocket.OPEN) {
+                resolve();
+            } else {
+                this._socket.once('open', () => resolve());
+                this._socket.once('error', e => reject(e));
+            }
+        });
     }
 
     public onClose(handler: () => void): void {
@@ -3,15 +3,21 @@
  *--------------------------------------------------------*/
 
 import { DebugProtocol } from 'vscode-debugprotocol';
-import { InitializedEvent, TerminatedEvent, ContinuedEvent, OutputEvent, Logger, logger, LoadedSourceEvent } from 'vscode-debugadapter';
+import { InitializedEvent, TerminatedEvent, ContinuedEvent, OutputEvent, Logger, logger, LoadedSourceEvent, Event } from 'vscode-debugadapter';
 
 import { ICommonRequestArgs, ILaunchRequestArgs, ISetBreakpointsArgs, ISetBreakpointsResponseBody, IStackTraceResponseBody,
     IAttachRequestArgs, IScopesResponseBody, IVariablesResponseBody,
     ISourceResponseBody, IThreadsResponseBody, IEvaluateResponseBody, IDebugAdapter,
-    ICompletionsResponseBody, IToggleSkipFileStatusArgs,
+    ICompletionsResponseBody, IToggleSkipFileStatusArgs, IEventListenerBreakpointsResponseBody, ISetEventListenerBreakpointsArgs, ISetXHRBreakpointsArgs,
+    IRunToLocationArgs, IBreakpointDiagnosticsArgs, IBreakpointDiagnosticsResponseBody, IBreakpointStatisticsResponseBody, ISnapshotsResponseBody,
+    ICapabilities, IExceptionBreakpointsFilter, ISetExceptionBreakpointsArgs,
     ISetBreakpointResult, IRestartRequestArgs, IInitializeRequestArgs, ITelemetryPropertyCollector, IGetLoadedSourcesResponseBody, TimeTravelRuntime, IExceptionInfoResponseBody, ISetVariableResponseBody } from '../debugAdapterInterfaces';
 import { IChromeDebugAdapterOpts, ChromeDebugSession } from './chromeDebugSession';
 import { ChromeConnection } from './chromeConnection';
+import { CRDPMultiplexor } from './crdpMultiplexing/crdpMultiplexor';
+import { IPipeStreams } from './pipeSocket';
+import { ClientTargetPicker } from './targetPicker';
+import { RuntimeCapabilities } from './runtimeCapabilities';
 import * as ChromeUtils from './chromeUtils';
 import { Protocol as Crdp } from 'devtools-protocol';
 import { ScopeContainer, isIndexedPropName } from './variables';
@@ -40,11 +46,19 @@ import * as path from 'path';
 import * as nls from 'vscode-nls';
 import { mapRemoteClientToInternalPath, mapInternalSourceToRemoteClient } from '../remoteMapper';
 import { Breakpoints } from './breakpoints';
+import { DataBreakpoints } from './dataBreakpoints';
+import { EventListenerBreakpoints } from './eventListenerBreakpoints';
+import { XHRBreakpoints } from './xhrBreakpoints';
+import { ExceptionBreakpoints } from './exceptionBreakpoints';
+import { StepInTargets } from './stepInTargets';
+import { SnapshotPoints } from './snapshotPoints';
 import { VariablesManager } from './variablesManager';
 import { StackFrames } from './stackFrames';
 import { ScriptContainer } from './scripts';
 import { SmartStepper } from './smartStep';
+import { AsyncStepper } from './asyncStep';
 import { ScriptSkipper } from './scriptSkipping';
+import { ChildTargets, ChildTarget } from './childTargets';
 let localize = nls.loadMessageBundle();
 
 export interface IPendingBreakpoint {
@@ -90,6 +104,9 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
     private static THREAD_ID = 1;
     private static ASYNC_CALL_STACK_DEPTH = 4;
 
+    // The runtime only follows the async calls that it tracks, so they are tracked for async stepping even when the async stacks aren't shown
+    private static ASYNC_STEPPING_CALL_STACK_DEPTH = 1;
+
     protected _session: ChromeDebugSession;
     protected _domains = new Map<CrdpDomain, Crdp.Schema.Domain>();
     private _clientAttached: boolean;
@@ -111,10 +128,9 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
     private _currentStep = Promise.resolve();
     private _currentLogMessage = Promise.resolve();
     private _pauseOnPromiseRejections = true;
+    private _pauseOnExceptionsState: 'all' | 'uncaught' | 'none';
     protected _promiseRejectExceptionFilterEnabled = false;
 
-    private _columnBreakpointsEnabled: boolean;
-
     private _smartStepEnabled: boolean;
     private _smartStepCount = 0;
     private _earlyScripts: Crdp.Debugger.ScriptParsedEvent[] = [];
@@ -136,20 +152,31 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
     private _loadedSourcesByScriptId = new Map<Crdp.Runtime.ScriptId, CrdpScript>();
 
     protected _isVSClient: boolean;
+    private _clientSupportsPickTarget: boolean;
 
-    public get columnBreakpointsEnabled() { return this._columnBreakpointsEnabled; }
+    public get columnBreakpointsEnabled() { return this._runtimeCapabilities.isSupported('columnBreakpoints'); }
+    public get runtimeCapabilities() { return this._runtimeCapabilities; }
     public get breakOnLoadHelper() { return this._breakOnLoadHelper; }
 
     protected _scriptContainer: ScriptContainer;
     protected _breakpoints: Breakpoints;
+    protected _dataBreakpoints: DataBreakpoints;
+    protected _eventListenerBreakpoints: EventListenerBreakpoints;
+    protected _xhrBreakpoints: XHRBreakpoints;
+    protected _exceptionBreakpoints: ExceptionBreakpoints;
+    protected _stepInTargets: StepInTargets;
+    protected _snapshotPoints: SnapshotPoints;
     protected _variablesManager: VariablesManager;
     protected _stackFrames: StackFrames;
     protected _smartStepper: SmartStepper;
+    protected _asyncStepper: AsyncStepper;
     protected _scriptSkipper: ScriptSkipper;
+    protected _childTargets: ChildTargets;
+    protected _runtimeCapabilities: RuntimeCapabilities;
 
     private _transformers: Transformers;
 
-    public constructor({ chromeConnection, lineColTransformer, sourceMapTransformer, pathTransformer, targetFilter, breakpoints, scriptContainer }: IChromeDebugAdapterOpts,
+    public constructor({ chromeConnection, lineColTransformer, sourceMapTransformer, pathTransformer, targetFilter, breakpoints, scriptContainer, quirkProfiles }: IChromeDebugAdapterOpts,
         session: ChromeDebugSession
     ) {
         telemetry.setupEventHandler(e => session.sendEvent(e));
@@ -159,6 +186,7 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
         this.events = new StepProgressEventsEmitter(this._chromeConnection.events ? [this._chromeConnection.events] : []);
 
         this._scriptContainer = new (scriptContainer || ScriptContainer)();
+        this._runtimeCapabilities = new RuntimeCapabilities(quirkProfiles);
 
         this._transformers = {
             lineColTransformer: new (lineColTransformer || LineColTransformer)(this._session),
@@ -167,9 +195,16 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
         };
 
         this._breakpoints = new (breakpoints || Breakpoints)(this, this._chromeConnection);
+        this._dataBreakpoints = new DataBreakpoints(this, this._chromeConnection, this._breakpoints);
+        this._eventListenerBreakpoints = new EventListenerBreakpoints(this._chromeConnection, this._runtimeCapabilities);
+        this._xhrBreakpoints = new XHRBreakpoints(this._chromeConnection, this._runtimeCapabilities);
+        this._exceptionBreakpoints = new ExceptionBreakpoints();
+        this._stepInTargets = new StepInTargets(this._chromeConnection, this._transformers, this._breakpoints, this._scriptContainer);
         this._variablesManager = new VariablesManager(this._chromeConnection);
+        this._snapshotPoints = new SnapshotPoints(this._chromeConnection, this._variablesManager);
         this._stackFrames = new StackFrames();
-        this._scriptSkipper = new ScriptSkipper(this._chromeConnection, this._transformers);
+        this._scriptSkipper = new ScriptSkipper(this._chromeConnection, this._transformers, this._runtimeCapabilities);
+        this._childTargets = new ChildTargets(this, this._chromeConnection, this._breakpoints, this._scriptSkipper);
 
         this.clearTargetContext();
     }
@@ -209,6 +244,10 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
             this._breakpoints.reset();
         }
 
+        if (this._dataBreakpoints) {
+            this._dataBreakpoints.reset();
+        }
+
         this.pathTransformer.clearTargetContext();
     }
 
@@ -220,11 +259,13 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
             ]
         }
     */
-    public initialize(args: IInitializeRequestArgs): DebugProtocol.Capabilities {
+    public initialize(args: IInitializeRequestArgs): ICapabilities {
         if (args.supportsMapURLToFilePathRequest) {
             this._transformers.pathTransformer = new FallbackToClientPathTransformer(this._session);
         }
 
+        this._clientSupportsPickTarget = !!args.supportsPickTargetRequest;
+
         this._isVSClient = args.clientID === 'visualstudio';
         utils.setCaseSensitivePaths(!this._isVSClient);
         this.sourceMapTransformer.isVSClient = this._isVSClient;
@@ -245,23 +286,37 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
             (<any>this)._clientColumnsStartAt1 = args.columnsStartAt1;
         }
 
-        const exceptionBreakpointFilters = [
+        const conditionDescription = localize('exceptions.conditionDescription', "Stop only when this expression is true, e.g. error.name !== 'AbortError'");
+        const exceptionBreakpointFilters: IExceptionBreakpointsFilter[] = [
             {
                 label: localize('exceptions.all', 'All Exceptions'),
                 filter: 'all',
-                default: false
+                default: false,
+                supportsCondition: true,
+                conditionDescription
             },
             {
                 label: localize('exceptions.uncaught', 'Uncaught Exceptions'),
                 filter: 'uncaught',
-                default: false
+                default: false,
+                supportsCondition: true,
+                conditionDescription
+            },
+            {
+                label: localize('exceptions.userCode', 'Exceptions in My Code'),
+                filter: 'userCode',
+                default: false,
+                supportsCondition: true,
+                conditionDescription
             }
         ];
         if (this._promiseRejectExceptionFilterEnabled) {
             exceptionBreakpointFilters.push({
                 label: localize('exceptions.promise_rejects', 'Promise Rejects'),
                 filter: 'promise_reject',
-                default: false
+                default: false,
+                supportsCondition: true,
+                conditionDescription
             });
         }
 
@@ -279,7 +334,12 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
             supportsValueFormattingOptions: true,
             supportsEvaluateForHovers: true,
             supportsLoadedSourcesRequest: true,
-            supportsBreakpointLocationsRequest: true
+            supportsBreakpointLocationsRequest: true,
+            supportsFunctionBreakpoints: true,
+            supportsExceptionOptions: true,
+            supportsExceptionFilterOptions: true,
+            supportsDataBreakpoints: true,
+            supportsStepInTargetsRequest: true
         };
     }
 
@@ -385,8 +445,10 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
         // Enable sourcemaps and async callstacks by default
         args.sourceMaps = typeof args.sourceMaps === 'undefined' || args.sourceMaps;
         args.showAsyncStacks = typeof args.showAsyncStacks === 'undefined' || args.showAsyncStacks;
+        args.asyncStepping = typeof args.asyncStepping === 'undefined' || args.asyncStepping;
 
         this._smartStepper = new SmartStepper(this._launchAttachArgs.smartStep);
+        this._asyncStepper = new AsyncStepper(this._launchAttachArgs.asyncStepping);
 
         if (args.breakOnLoadStrategy && args.breakOnLoadStrategy !== 'off') {
             this._breakOnLoadHelper = new BreakOnLoadHelper(this, args.breakOnLoadStrategy);
@@ -396,6 +458,30 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
         if (args.hasOwnProperty('targetFilter')) {
             this._chromeConnection.setTargetFilter(args.targetFilter);
         }
+
+        if (this._clientSupportsPickTarget || args.targetPickerFallback) {
+            this._chromeConnection.setTargetPicker(new ClientTargetPicker(this._session, this._clientSupportsPickTarget, args.targetPickerFallback));
+        }
+
+        if (args.extraCRDPChannels) {
+            // The debugger and the extraCRDPChannelPort use channels of the multiplexor too
+            const maxExtraCRDPChannels = CRDPMultiplexor.MAX_CHANNELS - (args.extraCRDPChannelPort ? 2 : 1);
+            if (args.extraCRDPChannels.length > maxExtraCRDPChannels) {
+                throw errors.tooManyExtraCRDPChannels(maxExtraCRDPChannels);
+            }
+
+            this._chromeConnection.setExtraCRDPChannels(args.extraCRDPChannels);
+        }
+
+        if (args.waitForTarget) {
+            this._chromeConnection.setWaitForTarget(typeof args.waitForTarget === 'object' ? args.waitForTarget : {});
+        }
+
+        if (args.recordCrdpTrafficTo) {
+            this._chromeConnection.recordTrafficTo(args.recordCrdpTrafficTo);
+        }
+
+        this._breakpoints.setLogpointOutputOptions(args.logpointRateLimit, args.logpointOutputFile);
     }
 
     public shutdown(): void {
@@ -413,6 +499,9 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
             await this._currentLogMessage;
             logger.log(`Current step and log messages complete`);
 
+            await this._breakpoints.closeLogpointOutput();
+            this._breakpoints.cancelPendingUpdates();
+
             /* __GDPR__
                "debugStopped" : {
                   "reason" : { "classification": "SystemMetaData", "purpose": "FeatureInsight" },
@@ -471,7 +560,74 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
 
         this.chrome.Debugger.on('breakpointResolved', params => this._breakpoints.onBreakpointResolved(params, this._scriptContainer));
 
-        this._chromeConnection.onClose(() => this.terminateSession('websocket closed'));
+        this._chromeConnection.onClose(() => this.onConnectionClosed());
+    }
+
+    protected async onConnectionClosed(): Promise<void> {
+        if (!this._launchAttachArgs || !this._launchAttachArgs.reconnectOnDisconnect || this._clientRequestedSessionEnd || this._hasTerminated || this._inShutdown) {
+            return this.terminateSession('websocket closed');
+        }
+
+        try {
+            await this.reconnect();
+        } catch (e) {
+            logger.log(`Failed to reconnect to the target: ${e.message}`);
+            await this.terminateSession('websocket closed');
+        }
+    }
+
+    /**
+     * Find the target again, attach to it, and configure it the same way as the target we lost the connection to
+     */
+    protected async reconnect(): Promise<void> {
+        logger.log('Websocket closed, reconnecting to the target');
+        if (this._currentPauseNotification) {
+            this._currentPauseNotification = null;
+            this._session.sendEvent(new ContinuedEvent(ChromeDebugAdapter.THREAD_ID));
+        }
+
+        this._childTargets.reset();
+        await this.onExecutionContextsCleared();
+
+        await this._chromeConnection.reconnect(this._launchAttachArgs.timeout);
+        this.hookConnectionEvents();
+        await Promise.all(this.runConnection());
+
+        await this.detectRuntimeCapabilities();
+        await this._scriptSkipper.applyBlackboxPatterns(this.chrome);
+        const maxDepth = this.asyncCallStackDepth;
+        await this.setAsyncCallStackDepth(maxDepth);
+
+        await this._breakpoints.resendBreakpoints();
+        await this._eventListenerBreakpoints.resendBreakpoints();
+        await this._xhrBreakpoints.resendBreakpoints();
+        if (this._pauseOnExceptionsState) {
+            await this.chrome.Debugger.setPauseOnExceptions({ state: this._pauseOnExceptionsState });
+        }
+
+        await this.enableChildTargets(maxDepth);
+
+        const target = this._chromeConnection.attachedTarget;
+        logger.log(`Reconnected to the target`);
+        this._session.sendEvent(new Event('targetReconnected', target && { id: target.id, title: target.title, url: target.url }));
+    }
+
+    private async enableChildTargets(asyncCallStackDepth: number): Promise<void> {
+        const attachToChildTargets = !!this._launchAttachArgs.autoAttachToChildTargets;
+        const attachToChildPages = !!this._launchAttachArgs.autoAttachToChildPages;
+        if (attachToChildTargets || attachToChildPages) {
+            try {
+                await this._childTargets.enable({
+                    asyncCallStackDepth,
+                    suppressConsoleOutput: !!this._launchAttachArgs._suppressConsoleOutput,
+                    asyncStepping: this._launchAttachArgs.asyncStepping,
+                    attachToChildTargets,
+                    attachToChildPages
+                });
+            } catch (e) {
+                logger.log(`Couldn't attach to child targets: ${e.message}`);
+            }
+        }
     }
 
     private async runAndMeasureProcessingTime(notificationName: string, procedure: () => Promise<void>): Promise<void> {
@@ -512,7 +668,7 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
         ];
     }
 
-    protected async doAttach(port: number, targetUrl?: string, address?: string, timeout?: number, websocketUrl?: string, extraCRDPChannelPort?: number): Promise<void> {
+    protected async doAttach(port: number, targetUrl?: string, address?: string, timeout?: number, websocketUrl?: string, extraCRDPChannelPort?: number, pipe?: IPipeStreams): Promise<void> {
         /* __GDPR__FRAGMENT__
            "StepNames" : {
               "Attach" : { "classification": "SystemMetaData", "purpose": "FeatureInsight" }
@@ -522,7 +678,9 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
         // Client is attaching - if not attached to the chrome target, create a connection and attach
         this._clientAttached = true;
         if (!this._chromeConnection.isAttached) {
-            if (websocketUrl) {
+            if (pipe) {
+                await this._chromeConnection.attachToPipe(pipe, extraCRDPChannelPort);
+            } else if (websocketUrl) {
                 await this._chromeConnection.attachToWebsocketUrl(websocketUrl, extraCRDPChannelPort);
             } else {
                 await this._chromeConnection.attach(address, port, targetUrl, timeout, extraCRDPChannelPort);
@@ -549,18 +707,17 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
             // Make sure debugging domain is enabled before initializing the script skipper
             await Promise.all(this.runConnection());
 
+            await this.detectRuntimeCapabilities();
             this._scriptSkipper.init(this._launchAttachArgs.skipFiles, this._launchAttachArgs.skipFileRegExps);
 
-            await this.initSupportedDomains();
-            const maxDepth = this._launchAttachArgs.showAsyncStacks ? ChromeDebugAdapter.ASYNC_CALL_STACK_DEPTH : 0;
-            try {
-                await this.chrome.Debugger.setAsyncCallStackDepth({ maxDepth });
-            } catch (e) {
-                // Not supported by older runtimes, ignore it.
-            }
+            const maxDepth = this.asyncCallStackDepth;
+            await this.setAsyncCallStackDepth(maxDepth);
 
-            if (this._breakOnLoadHelper) {
-                this._breakOnLoadHelper.setBrowserVersion((await this._chromeConnection.version).browser);
+            await this.enableChildTargets(maxDepth);
+
+            if (this._launchAttachArgs.xhrBreakpoints) {
+                await this._xhrBreakpoints.setXHRBreakpoints(this._launchAttachArgs.xhrBreakpoints)
+                    .catch(e => logger.log(`Failed to set the XHR breakpoints: ${e.message}`));
             }
 
             /* __GDPR__FRAGMENT__
@@ -572,12 +729,27 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
         }
     }
 
-    private async initSupportedDomains(): Promise<void> {
-        try {
-            const domainResponse = await this.chrome.Schema.getDomains();
-            domainResponse.domains.forEach(domain => this._domains.set(<any>domain.name, domain));
-        } catch (e) {
-            // If getDomains isn't supported for some reason, skip this
+    private async detectRuntimeCapabilities(): Promise<void> {
+        // We only know the versions of the target when we discovered it through the /json endpoints
+        const targetVersions = this._chromeConnection.attachedTarget ? this._chromeConnection.version : undefined;
+        await this._runtimeCapabilities.detect(this.chrome, targetVersions);
+        this._domains = this._runtimeCapabilities.runtime.domains;
+    }
+
+    private get asyncCallStackDepth(): number {
+        return this._launchAttachArgs.showAsyncStacks ? ChromeDebugAdapter.ASYNC_CALL_STACK_DEPTH :
+            this._launchAttachArgs.asyncStepping ? ChromeDebugAdapter.ASYNC_STEPPING_CALL_STACK_DEPTH :
+            0;
+    }
+
+    private async setAsyncCallStackDepth(maxDepth: number): Promise<void> {
+        if (this._runtimeCapabilities.isSupported('asyncCallStacks')) {
+            try {
+                await this.chrome.Debugger.setAsyncCallStackDepth({ maxDepth });
+            } catch (e) {
+                // Not supported by older runtimes, ignore it.
+                this._runtimeCapabilities.recordProbeResult('asyncCallStacks', false);
+            }
         }
     }
 
@@ -643,36 +815,90 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
             }
         }
 
+        if (this._dataBreakpoints.isDataBreakpointHook(notification.callFrames[0])) {
+            // Paused in the accessor of a data breakpoint. Step out of it, so we pause in the code that accessed the property
+            this._expectingStopReason = 'data_breakpoint';
+            this.chrome.Debugger.stepOut()
+                .catch(e => logger.error('Failed to step out of a data breakpoint: ' + e.message));
+            return { didPause: false };
+        }
+
+        const stepInTargetStep = this._stepInTargets.onPaused(notification);
+        if (stepInTargetStep) {
+            // On the way to the call that the user chose to step into
+            this._expectingResumedEvent = true;
+            (stepInTargetStep === 'stepOut' ? this.chrome.Debugger.stepOut() : this.chrome.Debugger.stepInto({}))
+                .catch(e => logger.error('Failed to step to the step in target: ' + e.message));
+            return { didPause: false };
+        }
+
+        const asyncStep = this._asyncStepper.onPaused(notification);
+        if (asyncStep) {
+            // On the way to the return of the async task that the user steps out of
+            this._expectingResumedEvent = true;
+            asyncStep(this.chrome)
+                .catch(e => logger.error('Failed to step out of the async task: ' + e.message));
+            return { didPause: false };
+        }
+
         // We can tell when we've broken on an exception. Otherwise if hitBreakpoints is set, assume we hit a
         // breakpoint. If not set, assume it was a step. We can't tell the difference between step and 'break on anything'.
         let reason: ReasonType;
+        let reasonDetail: string;
         let shouldSmartStep = false;
+        const eventListenerBreakpointTitle = this._eventListenerBreakpoints.getPausedBreakpointTitle(notification);
+        const xhrBreakpointUrl = this._xhrBreakpoints.getPausedRequestUrl(notification);
         if (notification.reason === 'exception') {
+            if (!await this.shouldStopOnException(notification)) {
+                this.chrome.Debugger.resume()
+                    .catch(() => { /* ignore failures */ });
+                return { didPause: false };
+            }
+
             reason = 'exception';
             this._exception = notification.data;
         } else if (notification.reason === 'promiseRejection') {
             reason = 'promise_rejection';
 
             // After processing smartStep and so on, check whether we are paused on a promise rejection, and should continue past it
-            if (this._promiseRejectExceptionFilterEnabled && !this._pauseOnPromiseRejections) {
+            if (!await this.shouldStopOnException(notification)) {
                 this.chrome.Debugger.resume()
                     .catch(() => { /* ignore failures */ });
                 return { didPause: false };
             }
 
             this._exception = notification.data;
+        } else if (typeof xhrBreakpointUrl === 'string') {
+            reason = 'xhr_breakpoint';
+            reasonDetail = xhrBreakpointUrl;
+        } else if (eventListenerBreakpointTitle) {
+            reason = 'event_listener_breakpoint';
+            reasonDetail = eventListenerBreakpointTitle;
         } else if (notification.hitBreakpoints && notification.hitBreakpoints.length) {
-            reason = 'breakpoint';
+            reason = notification.hitBreakpoints.some(breakpointId => this._breakpoints.isFunctionBreakpoint(breakpointId)) ? 'function_breakpoint' : 'breakpoint';
 
-            const result = this._breakpoints.handleHitCountBreakpoints(expectingStopReason, notification.hitBreakpoints);
+            this._breakpoints.recordHits(notification.hitBreakpoints, notification.callFrames, this._scriptContainer)
+                .catch(e => logger.log('Failed to record the breakpoint hits: ' + e.message));
+
+            const result = this._breakpoints.handleDormantBreakpoints(expectingStopReason, notification.hitBreakpoints) ||
+                this._breakpoints.handleHitCountBreakpoints(expectingStopReason, notification.hitBreakpoints);
             if (result) {
                 return result;
             }
 
+            const snapshotPointIds = !expectingStopReason && this._breakpoints.getHitSnapshotPointIds(notification.hitBreakpoints);
+            if (snapshotPointIds) {
+                await this.takeSnapshot(snapshotPointIds, notification)
+                    .catch(e => logger.error('Failed to take a snapshot: ' + e.message));
+                this.chrome.Debugger.resume()
+                    .catch(() => { /* ignore failures */ });
+                return { didPause: false };
+            }
+
         } else if (expectingStopReason) {
             // If this was a step, check whether to smart step
             reason = expectingStopReason;
-            shouldSmartStep = await this._shouldSmartStepCallFrame(this._currentPauseNotification.callFrames[0]);
+            shouldSmartStep = await this.shouldSmartStepCallFrame(this._currentPauseNotification.callFrames[0]);
         } else {
             reason = 'debugger_statement';
         }
@@ -692,7 +918,7 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
             // Enforce that the stopped event is not fired until we've sent the response to the step that induced it.
             // Also with a timeout just to ensure things keep moving
             const sendStoppedEvent = () => {
-                return this._session.sendEvent(new StoppedEvent2(reason, /*threadId=*/ChromeDebugAdapter.THREAD_ID, this._exception));
+                return this._session.sendEvent(new StoppedEvent2(reason, /*threadId=*/ChromeDebugAdapter.THREAD_ID, this._exception, reasonDetail));
             };
             await utils.promiseTimeout(this._currentStep, /*timeoutMs=*/300)
                 .then(sendStoppedEvent, sendStoppedEvent);
@@ -710,22 +936,25 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
         }
     */
     public async exceptionInfo(args: DebugProtocol.ExceptionInfoArguments): Promise<IExceptionInfoResponseBody> {
-        if (args.threadId !== ChromeDebugAdapter.THREAD_ID) {
+        const childTarget = this._childTargets.getByThreadId(args.threadId);
+        if (args.threadId !== ChromeDebugAdapter.THREAD_ID && !childTarget) {
             throw errors.invalidThread(args.threadId);
         }
 
-        if (this._exception) {
-            const isError = this._exception.subtype === 'error';
-            const message = isError ? utils.firstLine(this._exception.description) : (this._exception.description || this._exception.value);
+        const exception = childTarget ? childTarget.exception : this._exception;
+        const stackFrames = childTarget ? childTarget.stackFrames : this._stackFrames;
+        if (exception) {
+            const isError = exception.subtype === 'error';
+            const message = isError ? utils.firstLine(exception.description) : (exception.description || exception.value);
             const formattedMessage = message && message.replace(/\*/g, '\\*');
             const response: IExceptionInfoResponseBody = {
-                exceptionId: this._exception.className || this._exception.type || 'Error',
+                exceptionId: exception.className || exception.type || 'Error',
                 breakMode: 'unhandled',
                 details: {
-                    stackTrace: this._exception.description && await this._stackFrames.mapFormattedException(this._exception.description, this._transformers),
+                    stackTrace: exception.description && await stackFrames.mapFormattedException(exception.description, this._transformers),
                     message,
                     formattedDescription: formattedMessage, // VS workaround - see https://github.com/Microsoft/vscode/issues/34259
-                    typeName: this._exception.subtype || this._exception.type
+                    typeName: exception.subtype || exception.type
                 }
             };
 
@@ -750,19 +979,19 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
     }
 
     private async detectColumnBreakpointSupport(scriptId: Crdp.Runtime.ScriptId): Promise<void> {
-        this._columnBreakpointsEnabled = false; // So it isn't requested multiple times
+        this._runtimeCapabilities.recordProbeResult('columnBreakpoints', false); // So it isn't requested multiple times
         try {
             await this.chrome.Debugger.getPossibleBreakpoints({
                 start: { scriptId, lineNumber: 0, columnNumber: 0 },
                 end: { scriptId, lineNumber: 1, columnNumber: 0 },
                 restrictToFunction: false
             });
-            this._columnBreakpointsEnabled = true;
+            this._runtimeCapabilities.recordProbeResult('columnBreakpoints', true);
         } catch (e) {
-            this._columnBreakpointsEnabled = false;
+            this._runtimeCapabilities.recordProbeResult('columnBreakpoints', false);
         }
 
-        this.lineColTransformer.columnBreakpointsEnabled = this._columnBreakpointsEnabled;
+        this.lineColTransformer.columnBreakpointsEnabled = this._runtimeCapabilities.isSupported('columnBreakpoints');
     }
 
     public getBreakpointsResolvedDefer(scriptId: string): PromiseDefer<void> {
@@ -784,7 +1013,7 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
         const breakpointsAreResolvedDefer = this.getBreakpointsResolvedDefer(script.scriptId);
         try {
             this.doAfterProcessingSourceEvents(async () => { // This will block future 'removed' source events, until this processing has been completed
-                if (typeof this._columnBreakpointsEnabled === 'undefined') {
+                if (!this._runtimeCapabilities.wasProbed('columnBreakpoints')) {
                     if (!script.url.includes('internal/per_context')) {
                         await this.detectColumnBreakpointSupport(script.scriptId);
                         await this.sendInitializedEvent();
@@ -876,6 +1105,50 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
         this.onPaused(this._lastPauseState.event, this._lastPauseState.expecting);
     }
 
+    /* __GDPR__
+        "ClientRequest/eventListenerBreakpoints" : {
+            "${include}": [
+                "${IExecutionResultTelemetryProperties}",
+                "${DebugCommonProperties}"
+            ]
+        }
+    */
+    public eventListenerBreakpoints(): IEventListenerBreakpointsResponseBody {
+        return this._eventListenerBreakpoints.getEventListenerBreakpoints();
+    }
+
+    /* __GDPR__
+        "ClientRequest/setEventListenerBreakpoints" : {
+            "${include}": [
+                "${IExecutionResultTelemetryProperties}",
+                "${DebugCommonProperties}"
+            ]
+        }
+    */
+    public setEventListenerBreakpoints(args: ISetEventListenerBreakpointsArgs): Promise<void> {
+        if (!this.chrome) {
+            return utils.errP(errors.runtimeNotConnectedMsg);
+        }
+
+        return this._eventListenerBreakpoints.setEventListenerBreakpoints(args);
+    }
+
+    /* __GDPR__
+        "ClientRequest/setXHRBreakpoints" : {
+            "${include}": [
+                "${IExecutionResultTelemetryProperties}",
+                "${DebugCommonProperties}"
+            ]
+        }
+    */
+    public setXHRBreakpoints(args: ISetXHRBreakpointsArgs): Promise<void> {
+        if (!this.chrome) {
+            return utils.errP(errors.runtimeNotConnectedMsg);
+        }
+
+        return this._xhrBreakpoints.setXHRBreakpoints(args.urls);
+    }
+
     /* __GDPR__
         "ClientRequest/toggleSkipFileStatus" : {
             "${include}": [
@@ -927,7 +1200,10 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
     }
 
     protected onConsoleAPICalled(event: Crdp.Runtime.ConsoleAPICalledEvent): void {
-        if (this._launchAttachArgs._suppressConsoleOutput) {
+        this._breakpoints.recordLogpointHit(event)
+            .catch(e => logger.log('Failed to record the logpoint hit: ' + e.message));
+
+        if (this._launchAttachArgs._suppressConsoleOutput || !this._breakpoints.shouldShowLogpointMessage(event)) {
             return;
         }
 
@@ -1080,6 +1356,108 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
         return this._breakpoints.setBreakpoints(args, this._scriptContainer, requestSeq, ids);
     }
 
+    /* __GDPR__
+        "ClientRequest/breakpointDiagnostics" : {
+            "${include}": [
+                "${IExecutionResultTelemetryProperties}",
+                "${DebugCommonProperties}"
+            ]
+        }
+    */
+    /**
+     * Explain why the breakpoints of a source are unverified, e.g. when the webRoot, pathMapping or sourceMapPathOverrides are wrong
+     */
+    public breakpointDiagnostics(args: IBreakpointDiagnosticsArgs): Promise<IBreakpointDiagnosticsResponseBody> {
+        return this._breakpoints.getBreakpointDiagnostics(args.path, this._scriptContainer);
+    }
+
+    /* __GDPR__
+        "ClientRequest/breakpointStatistics" : {
+            "${include}": [
+                "${IExecutionResultTelemetryProperties}",
+                "${DebugCommonProperties}"
+            ]
+        }
+    */
+    /**
+     * How often and where each breakpoint and logpoint was hit, including the hits that didn't pause
+     */
+    public breakpointStatistics(): IBreakpointStatisticsResponseBody {
+        return this._breakpoints.getBreakpointStatistics();
+    }
+
+    /* __GDPR__
+        "ClientRequest/snapshots" : {
+            "${include}": [
+                "${IExecutionResultTelemetryProperties}",
+                "${DebugCommonProperties}"
+            ]
+        }
+    */
+    /**
+     * The snapshots that the snapshot points took. Their variables can be expanded with the variables request.
+     */
+    public snapshots(): ISnapshotsResponseBody {
+        return this._snapshotPoints.getSnapshots();
+    }
+
+    /**
+     * Capture a snapshot of a pause on snapshot points, on the main target or on a child target
+     */
+    public async takeSnapshot(breakpointIds: number[], notification: Crdp.Debugger.PausedEvent, childTarget?: ChildTarget): Promise<void> {
+        const stackFrames = childTarget ? childTarget.stackFrames : this._stackFrames;
+        const scripts = childTarget ? childTarget.scripts : this._scriptContainer;
+        const mappedStackFrames = await Promise.all(notification.callFrames.map(callFrame => stackFrames.mapCallFrame({
+            functionName: callFrame.functionName,
+            scriptId: callFrame.location.scriptId,
+            url: callFrame.url,
+            lineNumber: callFrame.location.lineNumber,
+            columnNumber: callFrame.location.columnNumber
+        }, this._transformers, scripts, this.originProvider)));
+
+        await this._snapshotPoints.capture(breakpointIds, notification.callFrames[0], mappedStackFrames, childTarget ? childTarget.api : this.chrome);
+    }
+
+    /* __GDPR__
+        "ClientRequest/setFunctionBreakpoints" : {
+            "${include}": [
+                "${IExecutionResultTelemetryProperties}",
+                "${DebugCommonProperties}"
+            ]
+        }
+    */
+    public setFunctionBreakpoints(args: DebugProtocol.SetFunctionBreakpointsArguments): Promise<DebugProtocol.SetFunctionBreakpointsResponse['body']> {
+        return this._breakpoints.setFunctionBreakpoints(args);
+    }
+
+    /* __GDPR__
+        "ClientRequest/dataBreakpointInfo" : {
+            "${include}": [
+                "${IExecutionResultTelemetryProperties}",
+                "${DebugCommonProperties}"
+            ]
+        }
+    */
+    public dataBreakpointInfo(args: DebugProtocol.DataBreakpointInfoArguments): Promise<DebugProtocol.DataBreakpointInfoResponse['body']> {
+        // Data breakpoints are only supported on the main target
+        const target = typeof args.variablesReference === 'number' && !this._childTargets.getByHandle(args.variablesReference) ?
+            this._variablesManager.getDataBreakpointTarget(args.variablesReference, args.name) :
+            undefined;
+        return this._dataBreakpoints.dataBreakpointInfo(target, args.name);
+    }
+
+    /* __GDPR__
+        "ClientRequest/setDataBreakpoints" : {
+            "${include}": [
+                "${IExecutionResultTelemetryProperties}",
+                "${DebugCommonProperties}"
+            ]
+        }
+    */
+    public setDataBreakpoints(args: DebugProtocol.SetDataBreakpointsArguments): Promise<DebugProtocol.SetDataBreakpointsResponse['body']> {
+        return this._dataBreakpoints.setDataBreakpoints(args);
+    }
+
     private reportBpTelemetry(args: ISetBreakpointsArgs): void {
         let fileExt = '';
         if (args.source.path) {
@@ -1104,24 +1482,15 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
             ]
         }
     */
-    public setExceptionBreakpoints(args: DebugProtocol.SetExceptionBreakpointsArguments): Promise<void> {
-        let state: 'all' | 'uncaught' | 'none';
-        if (args.filters.indexOf('all') >= 0) {
-            state = 'all';
-        } else if (args.filters.indexOf('uncaught') >= 0) {
-            state = 'uncaught';
-        } else {
-            state = 'none';
-        }
+    public setExceptionBreakpoints(args: ISetExceptionBreakpointsArgs): Promise<void> {
+        const state = this._exceptionBreakpoints.setExceptionBreakpoints(args);
+        this._pauseOnExceptionsState = state;
+        this._pauseOnPromiseRejections = this._exceptionBreakpoints.isFilterEnabled('promise_reject');
 
-        if (args.filters.indexOf('promise_reject') >= 0) {
-            this._pauseOnPromiseRejections = true;
-        } else {
-            this._pauseOnPromiseRejections = false;
-        }
-
-        return this.chrome.Debugger.setPauseOnExceptions({ state })
-            .then(() => { });
+        return Promise.all([
+            this.chrome.Debugger.setPauseOnExceptions({ state }),
+            this._childTargets.setPauseOnExceptions(state)
+        ]).then(() => { });
     }
 
     /* __GDPR__
@@ -1135,7 +1504,7 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
     /**
      * internal -> suppress telemetry
      */
-    public continue(internal = false): Promise<void> {
+    public continue(internal: boolean | DebugProtocol.ContinueArguments = false): Promise<void> {
        /* __GDPR__
           "continueRequest" : {
              "${include}": [ "${DebugCommonProperties}" ]
@@ -1146,6 +1515,11 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
             return utils.errP(errors.runtimeNotConnectedMsg);
         }
 
+        const childTarget = this.getChildTargetForThreadArgs(internal);
+        if (childTarget) {
+            return this._childTargets.continue(childTarget);
+        }
+
         this._expectingResumedEvent = true;
         return this._currentStep = this.chrome.Debugger.resume()
             .then(() => { /* make void */ },
@@ -1160,7 +1534,7 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
             ]
         }
     */
-    public next(): Promise<void> {
+    public next(args?: DebugProtocol.NextArguments): Promise<void> {
         if (!this.chrome) {
             return utils.errP(errors.runtimeNotConnectedMsg);
         }
@@ -1171,9 +1545,14 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
            }
          */
         telemetry.reportEvent('nextRequest');
+        const childTarget = this.getChildTargetForThreadArgs(args);
+        if (childTarget) {
+            return this._childTargets.step(childTarget, childTarget.asyncStepper.next(childTarget.pauseEvent));
+        }
+
         this._expectingStopReason = 'step';
         this._expectingResumedEvent = true;
-        return this._currentStep = this.chrome.Debugger.stepOver()
+        return this._currentStep = this._asyncStepper.next(this._currentPauseNotification)(this.chrome)
             .then(() => { /* make void */ },
                 () => { /* ignore failures - client can send the request when the target is no longer paused */ });
     }
@@ -1186,7 +1565,7 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
             ]
         }
     */
-    public stepIn(userInitiated = true): Promise<void> {
+    public stepIn(userInitiated: boolean | DebugProtocol.StepInArguments = true): Promise<void> {
         if (!this.chrome) {
             return utils.errP(errors.runtimeNotConnectedMsg);
         }
@@ -1200,13 +1579,42 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
             telemetry.reportEvent('stepInRequest');
         }
 
+        const childTarget = this.getChildTargetForThreadArgs(userInitiated);
+        if (childTarget) {
+            return this._childTargets.step(childTarget, api => api.Debugger.stepInto({ breakOnAsyncCall: this._launchAttachArgs.asyncStepping }));
+        }
+
+        if (typeof userInitiated !== 'boolean' && typeof userInitiated.targetId === 'number' && this._currentPauseNotification) {
+            this._stepInTargets.setPendingTarget(userInitiated.targetId, this._currentPauseNotification.callFrames.length);
+        }
+
         this._expectingStopReason = 'step';
         this._expectingResumedEvent = true;
-        return this._currentStep = this.chrome.Debugger.stepInto({ breakOnAsyncCall: true })
+        // With async stepping, stepping into a call that schedules a callback (setTimeout, a promise's then, etc...) pauses at the start of the callback
+        return this._currentStep = this.chrome.Debugger.stepInto({ breakOnAsyncCall: this._launchAttachArgs.asyncStepping })
             .then(() => { /* make void */ },
                 () => { /* ignore failures - client can send the request when the target is no longer paused */ });
     }
 
+    /* __GDPR__
+        "ClientRequest/stepInTargets" : {
+            "${include}": [
+                "${IExecutionResultTelemetryProperties}",
+                "${DebugCommonProperties}"
+            ]
+        }
+    */
+    public async stepInTargets(args: DebugProtocol.StepInTargetsArguments): Promise<DebugProtocol.StepInTargetsResponse['body']> {
+        const callFrame = this._stackFrames.getFrame(args.frameId);
+
+        // Only the calls of the top frame can be stepped into
+        if (!callFrame || !this._currentPauseNotification || callFrame !== this._currentPauseNotification.callFrames[0]) {
+            return { targets: [] };
+        }
+
+        return { targets: await this._stepInTargets.getStepInTargets(callFrame) };
+    }
+
     /* __GDPR__
         "ClientRequest/stepOut" : {
             "${include}": [
@@ -1215,7 +1623,7 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
             ]
         }
     */
-    public stepOut(): Promise<void> {
+    public stepOut(args?: DebugProtocol.StepOutArguments): Promise<void> {
         if (!this.chrome) {
             return utils.errP(errors.runtimeNotConnectedMsg);
         }
@@ -1226,13 +1634,81 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
            }
          */
         telemetry.reportEvent('stepOutRequest');
+        const childTarget = this.getChildTargetForThreadArgs(args);
+        if (childTarget) {
+            return this._childTargets.step(childTarget, childTarget.asyncStepper.stepOut(childTarget.pauseEvent));
+        }
+
         this._expectingStopReason = 'step';
         this._expectingResumedEvent = true;
-        return this._currentStep = this.chrome.Debugger.stepOut()
+        return this._currentStep = this._asyncStepper.stepOut(this._currentPauseNotification)(this.chrome)
             .then(() => { /* make void */ },
                 () => { /* ignore failures - client can send the request when the target is no longer paused */ });
     }
 
+    /* __GDPR__
+        "ClientRequest/runToLocation" : {
+            "${include}": [
+                "${IExecutionResultTelemetryProperties}",
+                "${DebugCommonProperties}"
+            ]
+        }
+    */
+    /**
+     * Run until the location in an authored source is reached, without adding a breakpoint. The breakpoints on the way still pause.
+     */
+    public async runToLocation(args: IRunToLocationArgs): Promise<void> {
+        if (!this.chrome) {
+            return utils.errP(errors.runtimeNotConnectedMsg);
+        }
+
+        const location = await this.authoredLocationToScriptLocation(args.source, args.line, args.column);
+        if (!location) {
+            return Promise.reject(errors.runToLocationScriptNotFound(args.source.path || args.source.name));
+        }
+
+        this._expectingStopReason = 'step';
+        this._expectingResumedEvent = true;
+        const continued = this.chrome.Debugger.continueToLocation({ location, targetCallFrames: args.targetCallFrames || 'any' })
+            .catch(e => {
+                // The target didn't resume, e.g. it wasn't paused
+                this._expectingStopReason = undefined;
+                this._expectingResumedEvent = false;
+                return Promise.reject(e);
+            });
+
+        // The failure is reported to the client, the requests that wait for the current step don't fail with it
+        this._currentStep = continued.then(() => { /* make void */ }, () => { });
+        return continued.then(() => { });
+    }
+
+    /**
+     * Map a location in a source from the client to the location in the script that the runtime loaded, or undefined if it isn't loaded
+     */
+    private async authoredLocationToScriptLocation(source: DebugProtocol.Source, clientLine: number, clientColumn = this.lineColTransformer.convertDebuggerColumnToClient(0)): Promise<Crdp.Debugger.Location | undefined> {
+        let lineNumber = this.lineColTransformer.convertClientLineToDebugger(clientLine);
+        let columnNumber = this.lineColTransformer.convertClientColumnToDebugger(clientColumn);
+
+        // A sourcemapped source with inline contents has a sourceReference but no script, its path is mapped like any other path
+        const handle = source.sourceReference && this._scriptContainer.getSource(source.sourceReference);
+        let script: Crdp.Debugger.ScriptParsedEvent;
+        if (handle && handle.scriptId) {
+            script = this._scriptContainer.getScriptById(handle.scriptId);
+        } else if (source.path) {
+            let generatedPath = utils.canonicalizeUrl(this.displayPathToRealPath(source.path));
+            const mapped = await this.sourceMapTransformer.mapToGenerated(generatedPath, lineNumber, columnNumber);
+            if (mapped) {
+                generatedPath = mapped.source;
+                lineNumber = mapped.line;
+                columnNumber = mapped.column;
+            }
+
+            script = this.getScriptByUrl(this.pathTransformer.getTargetPathFromClientPath(generatedPath) || generatedPath);
+        }
+
+        return script && { scriptId: script.scriptId, lineNumber, columnNumber };
+    }
+
     /* __GDPR__
         "ClientRequest/stepBack" : {
             "${include}": [
@@ -1269,7 +1745,7 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
             ]
         }
     */
-    public pause(): Promise<void> {
+    public pause(args?: DebugProtocol.PauseArguments): Promise<void> {
         if (!this.chrome) {
             return utils.errP(errors.runtimeNotConnectedMsg);
         }
@@ -1280,11 +1756,25 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
            }
          */
         telemetry.reportEvent('pauseRequest');
+        const childTarget = this.getChildTargetForThreadArgs(args);
+        if (childTarget) {
+            return this._childTargets.pause(childTarget);
+        }
+
         this._expectingStopReason = 'pause';
         return this._currentStep = this.chrome.Debugger.pause()
             .then(() => { });
     }
 
+    /**
+     * The step requests can also be called internally with other arguments, so only look for a threadId in an arguments object
+     */
+    private getChildTargetForThreadArgs(args: any): ChildTarget | undefined {
+        return args && typeof args === 'object' ?
+            this._childTargets.getByThreadId(args.threadId) :
+            undefined;
+    }
+
     /* __GDPR__
         "ClientRequest/stackTrace" : {
             "${include}": [
@@ -1294,18 +1784,21 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
         }
     */
     public async stackTrace(args: DebugProtocol.StackTraceArguments): Promise<IStackTraceResponseBody> {
-        if (!this._currentPauseNotification) {
+        const childTarget = this._childTargets.getByThreadId(args.threadId);
+        const pauseEvent = childTarget ? childTarget.pauseEvent : this._currentPauseNotification;
+        if (!pauseEvent) {
             return Promise.reject(errors.noCallStackAvailable());
         }
 
-        const stackTraceResponse = await this._stackFrames.getStackTrace({
+        const stackTraceResponse = await (childTarget ? childTarget.stackFrames : this._stackFrames).getStackTrace({
             args,
             originProvider: this.originProvider,
-            scripts: this._scriptContainer,
+            scripts: childTarget ? childTarget.scripts : this._scriptContainer,
             scriptSkipper: this._scriptSkipper,
             smartStepper: this._smartStepper,
             transformers: this._transformers,
-            pauseEvent: this._currentPauseNotification });
+            runtimeCapabilities: this._runtimeCapabilities,
+            pauseEvent: this._launchAttachArgs.showAsyncStacks ? pauseEvent : { ...pauseEvent, asyncStackTrace: undefined } });
 
         stackTraceResponse.stackFrames = stackTraceResponse.stackFrames.map(frame => {
             return { ...frame, source: mapInternalSourceToRemoteClient(frame.source, this._launchAttachArgs.remoteAuthority) };
@@ -1334,6 +1827,18 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
         }
     */
     public scopes(args: DebugProtocol.ScopesArguments): IScopesResponseBody {
+        const childTarget = this._childTargets.getByHandle(args.frameId);
+        if (childTarget) {
+            return childTarget.stackFrames.getScopes({
+                args,
+                scripts: childTarget.scripts,
+                variables: childTarget.variablesManager,
+                transformers: this._transformers,
+                pauseEvent: childTarget.pauseEvent,
+                currentException: childTarget.exception
+            });
+        }
+
         return this._stackFrames.getScopes({
             args,
             scripts: this._scriptContainer,
@@ -1353,7 +1858,7 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
         }
     */
     public async variables(args: DebugProtocol.VariablesArguments): Promise<IVariablesResponseBody> {
-        const result = await this._variablesManager.getVariables(args);
+        const result = await this.getVariablesManager(args.variablesReference).getVariables(args);
         const variables = result ? result.variables : [];
         return { variables: variables.filter(v => ChromeDebugAdapter.FILTERED_VARIABLE_NAMES.indexOf(v.name) === -1) };
     }
@@ -1367,9 +1872,11 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
         }
     */
     public source(args: DebugProtocol.SourceArguments): Promise<ISourceResponseBody> {
+        const childTarget = this._childTargets.getByHandle(args.sourceReference);
+        const api = childTarget ? childTarget.api : this.chrome;
         let scriptId: Crdp.Runtime.ScriptId;
         if (args.sourceReference) {
-            const handle = this._scriptContainer.getSource(args.sourceReference);
+            const handle = (childTarget ? childTarget.scripts : this._scriptContainer).getSource(args.sourceReference);
             if (!handle) {
                 return Promise.reject(errors.sourceRequestIllegalHandle());
             }
@@ -1403,7 +1910,7 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
         }
 
         // If not, should have scriptId
-        return this.chrome.Debugger.getScriptSource({ scriptId }).then(response => {
+        return api.Debugger.getScriptSource({ scriptId }).then(response => {
             return {
                 content: response.scriptSource,
                 mimeType: 'text/javascript'
@@ -1425,7 +1932,11 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
                 {
                     id: ChromeDebugAdapter.THREAD_ID,
                     name: this.threadName()
-                }
+                },
+                ...this._childTargets.targets.map(childTarget => ({
+                    id: childTarget.threadId,
+                    name: childTarget.name
+                }))
             ]
         };
     }
@@ -1458,7 +1969,7 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
         const evalResponse = await this.waitThenDoEvaluate(args.expression, args.frameId, { generatePreview: true });
 
         // Convert to a Variable object then just copy the relevant fields off
-        const variable = await this._variablesManager.remoteObjectToVariable(args.expression, evalResponse.result, /*parentEvaluateName=*/undefined, /*stringify=*/undefined, <VariableContext>args.context);
+        const variable = await this.getVariablesManager(args.frameId).remoteObjectToVariable(args.expression, evalResponse.result, /*parentEvaluateName=*/undefined, /*stringify=*/undefined, <VariableContext>args.context);
         if (evalResponse.exceptionDetails) {
             let resultValue = variable.value;
             if (resultValue && (resultValue.startsWith('ReferenceError: ') || resultValue.startsWith('TypeError: ')) && args.context !== 'repl') {
@@ -1511,14 +2022,55 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
         });
     }
 
-    private async _shouldSmartStepCallFrame(frame: Crdp.Debugger.CallFrame): Promise<boolean> {
-        const stackFrame = this._stackFrames.callFrameToStackFrame(frame, this._scriptContainer, this.originProvider);
+    /**
+     * Whether a step paused in a frame that smartStep steps through, on the main target or on a child target
+     */
+    public async shouldSmartStepCallFrame(frame: Crdp.Debugger.CallFrame, childTarget?: ChildTarget): Promise<boolean> {
+        const stackFrame = this.callFrameToStackFrame(frame, childTarget);
         const fakeResponse = { stackFrames: [stackFrame] };
         await this.pathTransformer.stackTraceResponse(fakeResponse);
         await this.sourceMapTransformer.stackTraceResponse(fakeResponse);
         return this._smartStepper.shouldSmartStep(fakeResponse.stackFrames[0], this.pathTransformer, this.sourceMapTransformer);
     }
 
+    /**
+     * Whether the source of the frame, after source mapping, is skipped with skipFiles
+     */
+    private async isCallFrameInSkippedCode(frame: Crdp.Debugger.CallFrame, childTarget?: ChildTarget): Promise<boolean> {
+        const stackFrame = this.callFrameToStackFrame(frame, childTarget);
+        const fakeResponse = { stackFrames: [stackFrame] };
+        await this.pathTransformer.stackTraceResponse(fakeResponse);
+        await this.sourceMapTransformer.stackTraceResponse(fakeResponse);
+
+        const source = fakeResponse.stackFrames[0].source;
+        return !!(source && source.path && this._scriptSkipper.shouldSkipSource(source.path));
+    }
+
+    /**
+     * Whether to stop on an exception or promise rejection, according to the exception breakpoints and skipFiles. Used for the main target
+     * and the child targets.
+     */
+    public async shouldStopOnException(notification: Crdp.Debugger.PausedEvent, childTarget?: ChildTarget): Promise<boolean> {
+        if (notification.reason === 'promiseRejection') {
+            if (!this._promiseRejectExceptionFilterEnabled) {
+                return true;
+            }
+
+            if (!this._pauseOnPromiseRejections) {
+                return false;
+            }
+        }
+
+        const api = childTarget ? childTarget.api : this.chrome;
+        return this._exceptionBreakpoints.shouldPauseOnException(notification, api, callFrame => this.isCallFrameInSkippedCode(callFrame, childTarget));
+    }
+
+    private callFrameToStackFrame(frame: Crdp.Debugger.CallFrame, childTarget?: ChildTarget): DebugProtocol.StackFrame {
+        return childTarget ?
+            childTarget.stackFrames.callFrameToStackFrame(frame, childTarget.scripts, this.originProvider) :
+            this._stackFrames.callFrameToStackFrame(frame, this._scriptContainer, this.originProvider);
+    }
+
     /**
      * Allow consumers to override just because of https://github.com/nodejs/node/issues/8426
      */
@@ -1534,12 +2086,13 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
 
     private async doEvaluate(expression: string, frameId?: number, extraArgs?: Partial<Crdp.Runtime.EvaluateRequest>): Promise<Crdp.Debugger.EvaluateOnCallFrameResponse | Crdp.Runtime.EvaluateResponse> {
         if (typeof frameId === 'number') {
-            const frame = this._stackFrames.getFrame(frameId);
+            const childTarget = this._childTargets.getByHandle(frameId);
+            const frame = (childTarget ? childTarget.stackFrames : this._stackFrames).getFrame(frameId);
             if (!frame || !frame.callFrameId) {
                 return utils.errP(errors.evalNotAvailableMsg);
             }
 
-            return this.evaluateOnCallFrame(expression, frame, extraArgs);
+            return this.evaluateOnCallFrame(expression, frame, extraArgs, childTarget ? childTarget.api : this.chrome);
         } else {
             let args: Crdp.Runtime.EvaluateRequest = {
                 expression,
@@ -1557,7 +2110,7 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
         }
     }
 
-    async evaluateOnCallFrame(expression: string, frame: Crdp.Debugger.CallFrame, extraArgs?: Partial<Crdp.Runtime.EvaluateRequest>): Promise<Crdp.Debugger.EvaluateOnCallFrameResponse | Crdp.Runtime.EvaluateResponse> {
+    async evaluateOnCallFrame(expression: string, frame: Crdp.Debugger.CallFrame, extraArgs?: Partial<Crdp.Runtime.EvaluateRequest>, api = this.chrome): Promise<Crdp.Debugger.EvaluateOnCallFrameResponse | Crdp.Runtime.EvaluateResponse> {
         const callFrameId = frame.callFrameId;
         let args: Crdp.Debugger.EvaluateOnCallFrameRequest = {
             callFrameId,
@@ -1571,7 +2124,7 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
             args = Object.assign(args, extraArgs);
         }
 
-        return this.chrome.Debugger.evaluateOnCallFrame(args);
+        return api.Debugger.evaluateOnCallFrame(args);
     }
 
     /* __GDPR__
@@ -1583,7 +2136,15 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
         }
     */
     public setVariable(args: DebugProtocol.SetVariableArguments): Promise<ISetVariableResponseBody> {
-        return this._variablesManager.setVariable(args);
+        return this.getVariablesManager(args.variablesReference).setVariable(args);
+    }
+
+    /**
+     * Get the VariablesManager of the target that created this variables reference or frame id
+     */
+    private getVariablesManager(handle: number): VariablesManager {
+        const childTarget = this._childTargets.getByHandle(handle);
+        return childTarget ? childTarget.variablesManager : this._variablesManager;
     }
 
     /* __GDPR__
@@ -1600,9 +2161,11 @@ export abstract class ChromeDebugAdapter implements IDebugAdapter {
             return utils.errP(errors.noRestartFrame);
         }
 
-        try {
-            await this.chrome.Debugger.restartFrame({ callFrameId: callFrame.callFrameId });
-        } catch (_e) { } // Fails in Electron 6, ignore: https://github.com/microsoft/vscode/issues/86411
+        if (this._runtimeCapabilities.isSupported('restartFrame')) {
+            try {
+                await this.chrome.Debugger.restartFrame({ callFrameId: callFrame.callFrameId });
+            } catch (_e) { } // Fails in Electron 6, ignore: https://github.com/microsoft/vscode/issues/86411
+        }
 
         this._expectingStopReason = 'frame_entry';
         return this.chrome.Debugger.stepInto({ });
@@ -18,6 +18,7 @@ import * as utils from '../utils';
 import { ExecutionTimingsReporter, StepProgressEventsEmitter, IObservableEvents, IStepStartedEventsEmitter, IFinishedStartingUpEventsEmitter } from '../executionTimingsReporter';
 import { Breakpoints } from './breakpoints';
 import { ScriptContainer } from '../chrome/scripts';
+import { IRuntimeQuirkProfile } from './runtimeCapabilities';
 
 export interface IChromeDebugAdapterOpts {
     targetFilter?: ITargetFilter;
@@ -31,6 +32,9 @@ export interface IChromeDebugAdapterOpts {
 
     breakpoints?: typeof Breakpoints;
     scriptContainer?: typeof ScriptContainer;
+
+    /** Overrides the detected features of the runtimes that behave differently than Chrome */
+    quirkProfiles?: IRuntimeQuirkProfile[];
 }
 
 export interface IChromeDebugSessionOpts extends IChromeDebugAdapterOpts {
@@ -9,7 +9,7 @@ import { IStepStartedEventsEmitter, StepProgressEventsEmitter, IObservableEvents
 
 import * as chromeUtils from './chromeUtils';
 
-import { ITargetDiscoveryStrategy, ITargetFilter, ITarget } from './chromeConnection';
+import { ITargetDiscoveryStrategy, ITargetFilter, ITarget, IWaitForTargetOptions } from './chromeConnection';
 
 import * as nls from 'vscode-nls';
 const localize = nls.loadMessageBundle();
@@ -38,6 +38,9 @@ export class TargetVersions {
 }
 
 export class ChromeTargetDiscovery implements ITargetDiscoveryStrategy, IObservableEvents<IStepStartedEventsEmitter> {
+    private static DEFAULT_WAIT_FOR_TARGET_INTERVAL = 500; // ms
+    private static DEFAULT_WAIT_FOR_TARGET_TIMEOUT = 60000; // ms
+
     private logger: Logger.ILogger;
     private telemetry: telemetry.ITelemetryReporter;
     public readonly events = new StepProgressEventsEmitter();
@@ -47,8 +50,8 @@ export class ChromeTargetDiscovery implements ITargetDiscoveryStrategy, IObserva
         this.telemetry = _telemetry;
     }
 
-    async getTarget(address: string, port: number, targetFilter?: ITargetFilter, targetUrl?: string): Promise<ITarget> {
-        const targets = await this.getAllTargets(address, port, targetFilter, targetUrl);
+    async getTarget(address: string, port: number, targetFilter?: ITargetFilter, targetUrl?: string, waitForTarget?: IWaitForTargetOptions): Promise<ITarget> {
+        const targets = await this.getAllTargets(address, port, targetFilter, targetUrl, waitForTarget);
         if (targets.length > 1) {
             this.logger.log('Warning: Found more than one valid target page. Attaching to the first one. Available pages: ' + JSON.stringify(targets.map(target => target.url)));
         }
@@ -61,7 +64,46 @@ export class ChromeTargetDiscovery implements ITargetDiscoveryStrategy, IObserva
         return selectedTarget;
     }
 
-    async getAllTargets(address: string, port: number, targetFilter?: ITargetFilter, targetUrl?: string): Promise<ITarget[]> {
+    async getAllTargets(address: string, port: number, targetFilter?: ITargetFilter, targetUrl?: string, waitForTarget?: IWaitForTargetOptions): Promise<ITarget[]> {
+        if (waitForTarget) {
+            return this._waitForMatchingTargets(address, port, targetFilter, targetUrl, waitForTarget);
+        }
+
+        return this._getAllMatchingTargets(address, port, targetFilter, targetUrl);
+    }
+
+    private async _waitForMatchingTargets(address: string, port: number, targetFilter: ITargetFilter, targetUrl: string, waitForTarget: IWaitForTargetOptions): Promise<ITarget[]> {
+        const interval = waitForTarget.interval || ChromeTargetDiscovery.DEFAULT_WAIT_FOR_TARGET_INTERVAL;
+        const timeout = waitForTarget.timeout || ChromeTargetDiscovery.DEFAULT_WAIT_FOR_TARGET_TIMEOUT;
+        const startTime = Date.now();
+
+        /* __GDPR__FRAGMENT__
+           "StepNames" : {
+              "Attach.WaitForMatchingTarget" : { "classification": "SystemMetaData", "purpose": "FeatureInsight" }
+           }
+         */
+        this.events.emitStepStarted('Attach.WaitForMatchingTarget');
+        this.logger.log(`Waiting up to ${timeout} ms for a target that matches: ${targetUrl}`);
+
+        const pollUntilTimeout = async (): Promise<ITarget[]> => {
+            try {
+                return await this._getAllMatchingTargets(address, port, targetFilter, targetUrl);
+            } catch (e) {
+                // Either the endpoint isn't up yet, or the page we are looking for wasn't opened yet
+                if (Date.now() - startTime + interval >= timeout) {
+                    return utils.errP(localize('attach.waitForTargetTimeout', 'No matching target was found after waiting for {0} ms. Last error: {1}', timeout, e.message));
+                }
+
+                this.logger.verbose(`No matching target yet, polling again in ${interval} ms. Error: ${e.message}`);
+                await utils.promiseTimeout(null, interval);
+                return pollUntilTimeout();
+            }
+        };
+
+        return pollUntilTimeout();
+    }
+
+    private async _getAllMatchingTargets(address: string, port: number, targetFilter?: ITargetFilter, targetUrl?: string): Promise<ITarget[]> {
         const targets = await this._getTargets(address, port);
         /* __GDPR__
            "targetCount" : {
@@ -24,10 +24,18 @@ import { logger } from 'vscode-debugadapter';
     1. The message IDs of CRDP don't need to be sent in order
     2. The Domain.enable messages don't have any side-effects (We might send them multiple times)
     3. The clients are ready to recieve domain messages when they send the Domain.enable message (A better design would be to assume that they are ready after we've sent the response for that message, but this approach seems to be working so far)
-    4. The clients never disable any Domain
-    5. The clients enable all domains in the first 60 seconds after they've connected
+    4. The clients enable all domains in the first 60 seconds after they've connected. If they enable a domain later, they only get the
+       notifications that describe the current state of the domain (see DomainState)
  */
 
+/* Rationale: Disabling a domain affects the whole target, so if a channel disables a domain that the debugger channel uses, debugging breaks.
+   We only send a Domain.disable to the target when no other channel has that domain enabled, and otherwise we answer it ourselves.
+   In a similar way, a Domain.enable for a domain that another channel already enabled doesn't make the target send the notifications
+   that describe the current state again (e.g. Debugger.scriptParsed for the scripts that were already loaded), so we keep those
+   notifications and send them to the channel ourselves.
+   Messages sent to a child session (with a sessionId) are not tracked, because the domains of each session are enabled independently.
+*/
+
 function extractDomain(method: string): string {
     const methodParts = method.split('.');
     if (methodParts.length === 2) {
@@ -54,8 +62,61 @@ function throwCriticalError(message: string): void {
     throw new Error(message);
 }
 
+/**
+ * The notifications that describe the current state of the Runtime and Debugger domains, which the target only sends when the domain gets enabled
+ */
+class DomainState {
+    private _executionContextsCreated = new Map<number, string>();
+    private _scriptsParsed = new Map<string, { executionContextId: number, data: string }>();
+
+    public static isStateNotification(method: string): boolean {
+        return ['Runtime.executionContextCreated', 'Debugger.scriptParsed', 'Debugger.scriptFailedToParse'].indexOf(method) >= 0;
+    }
+
+    public onNotification(message: { method: string, params?: any }, data: string): void {
+        switch (message.method) {
+            case 'Runtime.executionContextCreated':
+                this._executionContextsCreated.set(message.params.context.id, data);
+                break;
+            case 'Runtime.executionContextDestroyed':
+                this._executionContextsCreated.delete(message.params.executionContextId);
+                this._scriptsParsed.forEach((script, scriptId) => {
+                    if (script.executionContextId === message.params.executionContextId) {
+                        this._scriptsParsed.delete(scriptId);
+                    }
+                });
+                break;
+            case 'Runtime.executionContextsCleared':
+                this._executionContextsCreated.clear();
+                this._scriptsParsed.clear();
+                break;
+            case 'Debugger.scriptParsed':
+            case 'Debugger.scriptFailedToParse':
+                this._scriptsParsed.set(message.params.scriptId, { executionContextId: message.params.executionContextId, data });
+                break;
+            default:
+                // Other notifications don't describe the state of the domain
+        }
+    }
+
+    public notificationsOf(domain: string): string[] {
+        switch (domain) {
+            case 'Runtime':
+                return Array.from(this._executionContextsCreated.values());
+            case 'Debugger':
+                return Array.from(this._scriptsParsed.values()).map(script => script.data);
+            default:
+                return [];
+        }
+    }
+}
+
 export class CRDPMultiplexor {
+    // The channel is encoded in the last digit of the message ids
+    public static MAX_CHANNELS = 10;
+
     private _channels: CRDPChannel[] = [];
+    private _domainState = new DomainState();
 
     private onMessage(data: string): void {
         const message = JSON.parse(data);
@@ -80,7 +141,11 @@ export class CRDPMultiplexor {
         }
     }
 
-    private onDomainNotification(message: {method: string}, data: string): void {
+    private onDomainNotification(message: {method: string, sessionId?: string}, data: string): void {
+        if (!message.sessionId) {
+            this._domainState.onNotification(message, data);
+        }
+
         // The message is a notification, so it should go to all channels. The channels itself will filter based on the enabled domains
         const domain = extractDomain(message.method);
         for (const channel of this._channels) {
@@ -93,8 +158,8 @@ export class CRDPMultiplexor {
     }
 
     public addChannel(channelName: string): CRDPChannel {
-        if (this._channels.length >= 10) {
-            throw new Error(`Only 10 channels are supported`);
+        if (this._channels.length >= CRDPMultiplexor.MAX_CHANNELS) {
+            throw new Error(`Only ${CRDPMultiplexor.MAX_CHANNELS} channels are supported`);
         }
 
         const channel = new CRDPChannel(channelName, this._channels.length, this);
@@ -113,6 +178,14 @@ export class CRDPMultiplexor {
         this._wrappedLikeSocket.send(data);
     }
 
+    public isDomainEnabledByOtherChannels(channel: CRDPChannel, domain: string): boolean {
+        return this._channels.some(otherChannel => otherChannel !== channel && otherChannel.isDomainEnabled(domain));
+    }
+
+    public domainStateNotifications(domain: string): string[] {
+        return this._domainState.notificationsOf(domain);
+    }
+
     public addListenerOfNonMultiplexedEvent(event: string, cb: Function): void {
         this._wrappedLikeSocket.on(event, cb);
     }
@@ -133,6 +206,10 @@ export class CRDPChannel implements LikeSocket {
         this._messageCallbacks.forEach(callback => callback(messageData));
     }
 
+    public isDomainEnabled(domain: string): boolean {
+        return !!this._enabledDomains[domain];
+    }
+
     public callDomainMessageCallbacks(domain: string, messageData: string): void {
         if (this._enabledDomains[domain]) {
             this.callMessageCallbacks(messageData);
@@ -159,30 +236,59 @@ export class CRDPChannel implements LikeSocket {
     public send(messageData: string): void {
         const message = JSON.parse(messageData);
         const method = message.method;
-        const isEnableMethod = method && method.endsWith('.enable');
-        let domain;
+        const isTrackedMethod = method && !message.sessionId;
+        const isEnableMethod = isTrackedMethod && method.endsWith('.enable');
+        const isDisableMethod = isTrackedMethod && method.endsWith('.disable');
+        const domain = (isEnableMethod || isDisableMethod) ? extractDomain(method) : undefined;
+        const isDomainEnabledByOtherChannels = domain && this._multiplexor.isDomainEnabledByOtherChannels(this, domain);
+
+        if (isDisableMethod) {
+            this._enabledDomains[domain] = false;
+            if (isDomainEnabledByOtherChannels) {
+                logger.log(`CRDP Multiplexor - Not sending ${method} from channel ${this.name} to the target because other channels use the domain`);
+                setImmediate(() => this.callMessageCallbacks(JSON.stringify({ id: message.id, result: {} })));
+                return;
+            }
+        }
 
         if (isEnableMethod) {
-            domain = extractDomain(method);
             this._enabledDomains[domain] = true;
         }
 
         this._multiplexor.send(this, messageData);
 
         if (isEnableMethod) {
-            this.sendUnsentPendingMessages(domain);
+            if (isDomainEnabledByOtherChannels) {
+                this.sendDomainState(domain);
+            }
+
+            this.sendUnsentPendingMessages(domain, /*skipStateNotifications=*/isDomainEnabledByOtherChannels);
         }
     }
 
-    private sendUnsentPendingMessages(domain: string): void {
+    /**
+     * The target won't send the notifications of the current state of a domain that was already enabled, so we send them ourselves
+     */
+    private sendDomainState(domain: string): void {
+        const stateNotifications = this._multiplexor.domainStateNotifications(domain);
+        if (stateNotifications.length) {
+            logger.log(`CRDP Multiplexor - Sending the current state of domain ${domain} to channel ${this.name} (Count = ${stateNotifications.length})`);
+            stateNotifications.forEach(notificationData => this.callMessageCallbacks(notificationData));
+        }
+    }
+
+    private sendUnsentPendingMessages(domain: string, skipStateNotifications: boolean): void {
         if (this._pendingMessagesForDomain !== null) {
             const pendingMessagesData = this._pendingMessagesForDomain[domain];
             if (pendingMessagesData !== undefined && this._messageCallbacks.length) {
                 logger.log(`CRDP Multiplexor - Sending pending messages of domain ${domain}(Count = ${pendingMessagesData.length})`);
                 delete this._pendingMessagesForDomain[domain];
-                pendingMessagesData.forEach(pendingMessageData => {
-                    this.callDomainMessageCallbacks(domain, pendingMessageData);
-                });
+                pendingMessagesData
+                    // The state notifications were already sent by sendDomainState
+                    .filter(pendingMessageData => !skipStateNotifications || !DomainState.isStateNotification(JSON.parse(pendingMessageData).method))
+                    .forEach(pendingMessageData => {
+                        this.callDomainMessageCallbacks(domain, pendingMessageData);
+                    });
             }
         }
     }
@@ -0,0 +1,81 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { LikeSocket } from 'noice-json-rpc';
+
+/* Rationale: When we attach to child targets (workers, iframes, etc...) with Target.setAutoAttach({ flatten: true }), all the messages
+   for every target flow through the same connection, and the messages of each child target carry a top-level sessionId property.
+   noice-json-rpc doesn't know about sessions, so we give each Client a SessionSocket, which only lets through the messages of its
+   own session, and tags the messages it sends with it. The root target is represented by an undefined sessionId.
+*/
+
+export class SessionSocket implements LikeSocket {
+    private _wrappedCallbacks = new Map<Function, Function>();
+
+    constructor(private readonly _socket: LikeSocket, public readonly sessionId?: string) { }
+
+    public get isRootSession(): boolean {
+        return this.sessionId === undefined;
+    }
+
+    public send(messageData: string): void {
+        if (!this.isRootSession) {
+            const message = JSON.parse(messageData);
+            message.sessionId = this.sessionId;
+            messageData = JSON.stringify(message);
+        }
+
+        this._socket.send(messageData);
+    }
+
+    public on(event: string, cb: Function): void;
+    public on(event: 'open', cb: (ws: LikeSocket) => void): void;
+    public on(event: 'message', cb: (data: string) => void): void;
+    public on(event: string, cb: Function): void {
+        if (event === 'message') {
+            const wrappedCallback = (data: string) => {
+                if (this.isMessageForThisSession(data)) {
+                    cb(data);
+                }
+            };
+
+            this._wrappedCallbacks.set(cb, wrappedCallback);
+            this._socket.on(event, wrappedCallback);
+        } else if (event === 'open' && !this.isRootSession) {
+            // Child sessions are created on an already opened connection, so they'll never see the 'open' event
+            Promise.resolve().then(() => cb(this));
+        } else {
+            this._socket.on(event, cb);
+        }
+    }
+
+    public removeListener(event: string, cb: Function): void {
+        const wrappedCallback = this._wrappedCallbacks.get(cb);
+        if (wrappedCallback) {
+            this._wrappedCallbacks.delete(cb);
+            this._socket.removeListener(event, wrappedCallback);
+        } else {
+            this._socket.removeListener(event, cb);
+        }
+    }
+
+    /**
+     * Stop listening to the messages of the socket, e.g. because the session was detached
+     */
+    public close(): void {
+        this._wrappedCallbacks.forEach(wrappedCallback => this._socket.removeListener('message', wrappedCallback));
+        this._wrappedCallbacks.clear();
+    }
+
+    private isMessageForThisSession(data: string): boolean {
+        const messageData = String(data);
+
+        // Avoid parsing the messages of the root session, which is the common case
+        if (messageData.indexOf('"sessionId"') < 0) {
+            return this.isRootSession;
+        }
+
+        return JSON.parse(messageData).sessionId === this.sessionId;
+    }
+}
@@ -4,35 +4,55 @@
 
 import { logger } from 'vscode-debugadapter';
 import * as WebSocket from 'ws';
+import * as http from 'http';
+import * as url from 'url';
 import { LikeSocket } from 'noice-json-rpc';
 
+export interface IWebSocketProxyOptions {
+    /** Only the methods of these domains (e.g. ["Runtime", "Profiler"]) can be called through the proxy. All the domains are allowed if it's not set. */
+    allowedDomains?: string[];
+
+    /** Clients must send this token, either in the token query parameter of the url (ws://localhost:port/?token=...) or in a "Bearer" Authorization header */
+    authToken?: string;
+}
+
+/**
+ * An additional channel of the CRDP connection, offered to other tools through a websocket port
+ */
+export interface IExtraCRDPChannel extends IWebSocketProxyOptions {
+    name: string;
+    port: number;
+}
+
 export class WebSocketToLikeSocketProxy {
     private _server: WebSocket.Server;
     private _currentlyOpenedWebSocket: WebSocket = null;
 
-    constructor(private _port: number, private _socket: LikeSocket) { }
+    constructor(private _port: number, private _socket: LikeSocket, private _options: IWebSocketProxyOptions = {}) { }
 
-    public start(): void {
-        this._server = new WebSocket.Server({ port: this._port }, () => {
+    /**
+     * Resolves when the server is listening, or when it failed to listen
+     */
+    public start(): Promise<void> {
+        let onListening: () => void;
+        const listening = new Promise<void>(resolve => onListening = resolve);
+        this._server = new WebSocket.Server({ port: this._port, verifyClient: info => this.isAuthorized(info.req) }, () => {
             logger.log(`CRDP Proxy listening on: ${this._port}`);
+            onListening();
         });
 
-        this._socket.on('close', () => {
-            logger.log('CRDP Proxy shutting down');
-            this._server.close(() => {
-                if (this._currentlyOpenedWebSocket !== null) {
-                    this._currentlyOpenedWebSocket.close();
-                    logger.log('CRDP Proxy succesfully shut down');
-                }
-
-                return {};
-            });
+        this._server.on('error', e => {
+            logger.error(`CRDP Proxy on port ${this._port} failed: ${e.message}`);
+            onListening();
         });
 
+        this.watchSocketClose(this._socket);
+
         this._server.on('connection', openedWebSocket => {
             if (this._currentlyOpenedWebSocket !== null) {
                 openedWebSocket.close();
-                throw Error(`CRDP Proxy: Only one websocket is supported by the server on port ${this._port}`);
+                logger.error(`CRDP Proxy: Only one websocket is supported by the server on port ${this._port}`);
+                return;
             } else {
                 this._currentlyOpenedWebSocket = openedWebSocket;
                 logger.log(`CRDP Proxy accepted a new connection`);
@@ -40,18 +60,128 @@ export class WebSocketToLikeSocketProxy {
 
             openedWebSocket.on('message', data => {
                 logger.log(`CRDP Proxy - Client to Target: ${data}`);
-                this._socket.send(data.toString());
+                let message: any;
+                try {
+                    message = JSON.parse(data.toString());
+                } catch (e) {
+                    // A client that sends something other than CRDP messages can't be trusted to work, so we disconnect it
+                    logger.error(`CRDP Proxy on port ${this._port} closed a client that sent an invalid message (${e.message}): ${data}`);
+                    openedWebSocket.close();
+                    return;
+                }
+
+                const rejection = this.rejectDisallowedDomain(message);
+                if (rejection) {
+                    openedWebSocket.send(rejection);
+                } else {
+                    this._socket.send(data.toString());
+                }
             });
 
+            const socket = this._socket;
+            const onTargetMessage = (data: string) => {
+                if (this.isAllowedMessageFromTarget(data)) {
+                    logger.log(`CRDP Proxy - Target to Client: ${data}`);
+                    openedWebSocket.send(data);
+                }
+            };
+            socket.on('message', onTargetMessage);
+
             openedWebSocket.on('close', () => {
                 logger.log('CRDP Proxy - Client closed the connection');
                 this._currentlyOpenedWebSocket = null;
+                socket.removeListener('message', onTargetMessage);
             });
+        });
 
-            this._socket.on('message', data => {
-                logger.log(`CRDP Proxy - Target to Client: ${data}`);
-                openedWebSocket.send(data);
-            });
+        return listening;
+    }
+
+    /**
+     * Forward to a new connection to the target, e.g. after reconnecting to it. The server keeps listening on the same port.
+     */
+    public setSocket(socket: LikeSocket): void {
+        // A client that connected while there was no connection to the target is listening to the previous one
+        this.disconnectClient();
+        this._socket = socket;
+        this.watchSocketClose(socket);
+    }
+
+    public close(): Promise<void> {
+        logger.log('CRDP Proxy shutting down');
+        this.disconnectClient();
+        return new Promise<void>(resolve => this._server.close(() => {
+            logger.log('CRDP Proxy succesfully shut down');
+            resolve();
+        }));
+    }
+
+    /**
+     * The state of the client (e.g. the domains it enabled) is lost with the connection to the target, so the client is disconnected, and it
+     * can connect again when the proxy forwards to a new connection
+     */
+    private watchSocketClose(socket: LikeSocket): void {
+        socket.on('close', () => {
+            if (socket === this._socket) {
+                this.disconnectClient();
+            }
         });
     }
+
+    private disconnectClient(): void {
+        if (this._currentlyOpenedWebSocket !== null) {
+            this._currentlyOpenedWebSocket.close();
+        }
+    }
+
+    private isAuthorized(request: http.IncomingMessage): boolean {
+        if (!this._options.authToken) {
+            return true;
+        }
+
+        const query = url.parse(request.url, /*parseQueryString=*/true).query;
+        const queryToken = typeof query === 'object' ? query.token : undefined;
+        const authorizationHeader = request.headers.authorization;
+        const isAuthorized = queryToken === this._options.authToken || authorizationHeader === `Bearer ${this._options.authToken}`;
+        if (!isAuthorized) {
+            logger.log(`CRDP Proxy on port ${this._port} rejected a connection without a valid token`);
+        }
+
+        return isAuthorized;
+    }
+
+    /**
+     * Returns the error response for a request to a domain that isn't allowed, or undefined if the request can be sent to the target
+     */
+    private rejectDisallowedDomain(message: { id?: number, method?: string }): string | undefined {
+        const domain = typeof message.method === 'string' ? message.method.split('.')[0] : undefined;
+        if (this.isAllowedDomain(domain)) {
+            return undefined;
+        }
+
+        logger.log(`CRDP Proxy on port ${this._port} rejected ${message.method}, the allowed domains are: ${this._options.allowedDomains.join(', ')}`);
+        return JSON.stringify({ id: message.id, error: { code: -32601, message: `The ${domain} domain is not allowed on this channel` } });
+    }
+
+    /**
+     * The responses are always sent to the client, but the notifications of the domains that aren't allowed are not
+     */
+    private isAllowedMessageFromTarget(data: string): boolean {
+        if (!this._options.allowedDomains) {
+            return true;
+        }
+
+        let message: { id?: number, method?: string };
+        try {
+            message = JSON.parse(data);
+        } catch (e) {
+            return false;
+        }
+
+        return typeof message.method !== 'string' || this.isAllowedDomain(message.method.split('.')[0]);
+    }
+
+    private isAllowedDomain(domain: string | undefined): boolean {
+        return !this._options.allowedDomains || this._options.allowedDomains.indexOf(domain) >= 0;
+    }
 }
@@ -0,0 +1,198 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { EventEmitter } from 'events';
+import * as WebSocket from 'ws';
+import { logger } from 'vscode-debugadapter';
+
+import { ITarget, ITargetDiscoveryStrategy, ITransportSocket, ITargetFilter } from '../chromeConnection';
+import { TargetVersions, Version } from '../chromeTargetDiscoveryStrategy';
+import { StepProgressEventsEmitter, IObservableEvents, IStepStartedEventsEmitter } from '../../executionTimingsReporter';
+import { ICrdpTrafficEntry, CrdpTrafficDirection, readCrdpTrafficRecording } from './crdpTrafficRecorder';
+
+const REPLAY_URL_PREFIX = 'crdp-replay://';
+
+/**
+ * A websocket url that makes ChromeConnection replay the recording instead of connecting to a real target.
+ * It can also be used directly as the websocketUrl of an attach configuration.
+ */
+export function recordingPathToReplayUrl(recordingPath: string): string {
+    return REPLAY_URL_PREFIX + recordingPath;
+}
+
+export function isReplayUrl(url: string): boolean {
+    return url.startsWith(REPLAY_URL_PREFIX);
+}
+
+export function replayUrlToRecordingPath(url: string): string {
+    return url.substr(REPLAY_URL_PREFIX.length);
+}
+
+interface IReplayEntry {
+    direction: CrdpTrafficDirection;
+    message: any;
+}
+
+/* Rationale: The adapter won't necessarily send exactly the same requests with the same ids as in the recorded session, so we
+   don't replay the recording blindly. Each request the adapter sends is matched with the first recorded request of the same
+   method and session that wasn't used yet, and the recorded response is sent back with the id of the new request. The recorded
+   events are sent in their original order, but we never go past a recorded request the adapter didn't send yet, so the events
+   arrive in the same order relative to the requests as they did in the recorded session. When the adapter doesn't send a recorded
+   request within maxRequestWait, e.g. because the code changed since the recording, the request and its response are skipped.
+*/
+
+/**
+ * A socket that serves a recorded CRDP session back to the adapter
+ */
+export class ReplaySocket extends EventEmitter implements ITransportSocket {
+    public static DEFAULT_MAX_REQUEST_WAIT = 5000; // ms
+
+    public readyState = WebSocket.CONNECTING;
+
+    private _entries: IReplayEntry[];
+    private _nextEntryIndex = 0;
+    private _sentRequestEntryIndexes = new Set<number>();
+    private _replayIdsByRecordedId = new Map<string, number>();
+    private _requestWaitTimer: NodeJS.Timer | undefined;
+    private _requestWaitEntryIndex: number | undefined;
+
+    public static fromRecording(recordingPath: string): ReplaySocket {
+        return new ReplaySocket(readCrdpTrafficRecording(recordingPath));
+    }
+
+    /**
+     * @param _maxRequestWait How long to wait for the adapter to send the next recorded request before skipping it
+     */
+    constructor(entries: ICrdpTrafficEntry[], private readonly _maxRequestWait = ReplaySocket.DEFAULT_MAX_REQUEST_WAIT) {
+        super();
+        this._entries = entries.map(entry => ({ direction: entry.direction, message: JSON.parse(entry.message) }));
+
+        setImmediate(() => {
+            this.readyState = WebSocket.OPEN;
+            this.emit('open', this);
+            this.replayUntilBlocked();
+        });
+    }
+
+    public send(messageData: string): void {
+        const request = JSON.parse(messageData);
+        const entryIndex = this._entries.findIndex((entry, i) =>
+            i >= this._nextEntryIndex &&
+            entry.direction === 'toTarget' &&
+            !this._sentRequestEntryIndexes.has(i) &&
+            entry.message.method === request.method &&
+            entry.message.sessionId === request.sessionId);
+
+        if (entryIndex < 0) {
+            this.emitMessageAsync({
+                id: request.id,
+                sessionId: request.sessionId,
+                error: { code: -32601, message: `${request.method} was not found in the recording` }
+            });
+        } else {
+            this._sentRequestEntryIndexes.add(entryIndex);
+            this._replayIdsByRecordedId.set(this.idKey(this._entries[entryIndex].message), request.id);
+            setImmediate(() => this.replayUntilBlocked());
+        }
+    }
+
+    public close(): void {
+        this.stopWaitingForRequest();
+        this.readyState = WebSocket.CLOSED;
+        this.emit('close');
+    }
+
+    private replayUntilBlocked(): void {
+        while (this.readyState === WebSocket.OPEN && this._nextEntryIndex < this._entries.length) {
+            const entry = this._entries[this._nextEntryIndex];
+            if (entry.direction === 'toTarget') {
+                if (!this._sentRequestEntryIndexes.has(this._nextEntryIndex)) {
+                    this.waitForRequest(this._nextEntryIndex);
+                    return;
+                }
+            } else if (typeof entry.message.id === 'number') {
+                // A response without a replay id belongs to a request that was skipped
+                const replayId = this._replayIdsByRecordedId.get(this.idKey(entry.message));
+                if (typeof replayId === 'number') {
+                    this.emitMessage({ ...entry.message, id: replayId });
+                }
+            } else {
+                this.emitMessage(entry.message);
+            }
+
+            this._nextEntryIndex++;
+        }
+
+        this.stopWaitingForRequest();
+    }
+
+    /**
+     * Wait until the adapter sends the request of this entry, or skip it when it doesn't send it in time
+     */
+    private waitForRequest(entryIndex: number): void {
+        if (this._requestWaitTimer && this._requestWaitEntryIndex === entryIndex) {
+            return;
+        }
+
+        this.stopWaitingForRequest();
+        this._requestWaitEntryIndex = entryIndex;
+        this._requestWaitTimer = setTimeout(() => {
+            this._requestWaitTimer = undefined;
+            logger.log(`ReplaySocket: Skipping ${this._entries[entryIndex].message.method}, which the adapter didn't send within ${this._maxRequestWait}ms`);
+            this._nextEntryIndex = entryIndex + 1;
+            this.replayUntilBlocked();
+        }, this._maxRequestWait);
+    }
+
+    private stopWaitingForRequest(): void {
+        if (this._requestWaitTimer) {
+            clearTimeout(this._requestWaitTimer);
+            this._requestWaitTimer = undefined;
+        }
+    }
+
+    /**
+     * Each session has its own ids
+     */
+    private idKey(message: any): string {
+        return `${message.sessionId}:${message.id}`;
+    }
+
+    private emitMessage(message: any): void {
+        this.emit('message', JSON.stringify(message));
+    }
+
+    private emitMessageAsync(message: any): void {
+        setImmediate(() => this.emitMessage(message));
+    }
+}
+
+/**
+ * A target discovery strategy which always finds the target of a recorded session, so ChromeConnection will replay it
+ */
+export class ReplayTargetDiscovery implements ITargetDiscoveryStrategy, IObservableEvents<IStepStartedEventsEmitter> {
+    public readonly events = new StepProgressEventsEmitter();
+
+    constructor(private readonly _recordingPath: string) { }
+
+    public async getTarget(_address: string, _port: number, _targetFilter?: ITargetFilter, _targetUrl?: string): Promise<ITarget> {
+        return this.getReplayTarget();
+    }
+
+    public async getAllTargets(_address: string, _port: number, _targetFilter?: ITargetFilter, _targetUrl?: string): Promise<ITarget[]> {
+        return [this.getReplayTarget()];
+    }
+
+    private getReplayTarget(): ITarget {
+        return {
+            description: `Replay of ${this._recordingPath}`,
+            devtoolsFrontendUrl: '',
+            id: 'crdp-replay',
+            title: `Replay of ${this._recordingPath}`,
+            type: 'page',
+            webSocketDebuggerUrl: recordingPathToReplayUrl(this._recordingPath),
+            version: Promise.resolve(new TargetVersions(Version.unknownVersion(), Version.unknownVersion()))
+        };
+    }
+}
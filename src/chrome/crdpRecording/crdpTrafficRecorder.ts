@@ -0,0 +1,45 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import * as fs from 'fs';
+import { logger } from 'vscode-debugadapter';
+
+export type CrdpTrafficDirection = 'toTarget' | 'fromTarget';
+
+/**
+ * One line of a recording. The message is kept as the raw string that was sent or received.
+ */
+export interface ICrdpTrafficEntry {
+    timestamp: number;
+    direction: CrdpTrafficDirection;
+    message: string;
+}
+
+/**
+ * Writes all the CRDP messages sent to and received from the target to a file, one JSON entry per line
+ */
+export class CrdpTrafficRecorder {
+    private _stream: fs.WriteStream;
+
+    constructor(public readonly filePath: string) {
+        this._stream = fs.createWriteStream(filePath, { flags: 'w' });
+        this._stream.on('error', e => logger.error(`Failed to record the CRDP traffic to ${filePath}: ${e.message}`));
+    }
+
+    public record(direction: CrdpTrafficDirection, message: string): void {
+        const entry: ICrdpTrafficEntry = { timestamp: Date.now(), direction, message };
+        this._stream.write(JSON.stringify(entry) + '\n');
+    }
+
+    public close(): void {
+        this._stream.end();
+    }
+}
+
+export function readCrdpTrafficRecording(filePath: string): ICrdpTrafficEntry[] {
+    return fs.readFileSync(filePath, 'utf8')
+        .split('\n')
+        .filter(line => !!line.trim())
+        .map(line => <ICrdpTrafficEntry>JSON.parse(line));
+}
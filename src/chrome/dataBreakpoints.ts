@@ -0,0 +1,234 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { DebugProtocol } from 'vscode-debugprotocol';
+import { BreakpointEvent, logger } from 'vscode-debugadapter';
+import { Protocol as Crdp } from 'devtools-protocol';
+
+import { ChromeDebugAdapter } from './chromeDebugAdapter';
+import { ChromeConnection } from './chromeConnection';
+import { Breakpoints } from './breakpoints';
+import * as ChromeUtils from './chromeUtils';
+
+import * as nls from 'vscode-nls';
+let localize = nls.loadMessageBundle();
+
+/**
+ * A property that the client can set a data breakpoint on
+ */
+export interface IDataBreakpointTarget {
+    objectId: Crdp.Runtime.RemoteObjectId;
+    name: string;
+}
+
+interface IInstalledDataBreakpoint {
+    id: number;
+    target: IDataBreakpointTarget;
+
+    // The function that restores the property to what it was before we instrumented it
+    restoreFunctionId: Crdp.Runtime.RemoteObjectId;
+}
+
+/* Rationale: The runtime doesn't support watching a property, so we replace the property with an accessor that runs a debugger
+   statement when the property is written (or read) and forwards to the original value or accessors. When we pause in the
+   accessor, we step out of it, so the user sees the code that accessed the property. Removing the breakpoint restores the
+   property with its latest value.
+   The objects we get from the variables view are released when the target resumes, so we keep our own references to them
+   in a separate object group.
+*/
+
+/**
+ * Implements data breakpoints on the properties of objects in the main target
+ */
+export class DataBreakpoints {
+    private static OBJECT_GROUP = 'dataBreakpoints';
+    private static HOOK_FUNCTION_NAME = '__vscodeDataBreakpointHook';
+
+    // No ES6, in case we talk to an old runtime
+    private static INSTALL_FUNCTION = `
+        function installDataBreakpoint(propName, breakOnRead) {
+            var obj = this;
+            var ownDescriptor = Object.getOwnPropertyDescriptor(obj, propName);
+            if (ownDescriptor && !ownDescriptor.configurable) {
+                throw new Error('The property is not configurable');
+            }
+
+            var descriptor = ownDescriptor;
+            for (var proto = Object.getPrototypeOf(obj); !descriptor && proto; proto = Object.getPrototypeOf(proto)) {
+                descriptor = Object.getOwnPropertyDescriptor(proto, propName);
+            }
+
+            var isAccessor = !!descriptor && (!!descriptor.get || !!descriptor.set);
+            var isWritable = !descriptor || isAccessor || descriptor.writable !== false;
+            var value = obj[propName];
+            Object.defineProperty(obj, propName, {
+                configurable: true,
+                enumerable: descriptor ? descriptor.enumerable : true,
+                get: function ${DataBreakpoints.HOOK_FUNCTION_NAME}() {
+                    if (breakOnRead) {
+                        debugger;
+                    }
+                    return isAccessor ? (descriptor.get && descriptor.get.call(this)) : value;
+                },
+                set: function ${DataBreakpoints.HOOK_FUNCTION_NAME}(newValue) {
+                    debugger;
+                    if (isAccessor) {
+                        if (descriptor.set) descriptor.set.call(this, newValue);
+                    } else if (isWritable) {
+                        value = newValue;
+                    }
+                }
+            });
+
+            return function restoreDataBreakpoint() {
+                if (ownDescriptor) {
+                    if (!isAccessor) ownDescriptor.value = value;
+                    Object.defineProperty(obj, propName, ownDescriptor);
+                } else {
+                    delete obj[propName];
+                    if (!isAccessor && obj[propName] !== value) obj[propName] = value;
+                }
+            };
+        }`;
+
+    private _nextDataId = 0;
+    private _targetsByDataId = new Map<string, IDataBreakpointTarget>();
+    private _installedBreakpoints: IInstalledDataBreakpoint[] = [];
+    private _setDataBreakpointsRequestQ: Promise<any> = Promise.resolve();
+
+    private get chrome() { return this._chromeConnection.api; }
+
+    constructor(
+        private readonly adapter: ChromeDebugAdapter,
+        private readonly _chromeConnection: ChromeConnection,
+        private readonly _breakpoints: Breakpoints
+    ) { }
+
+    /**
+     * The objects don't exist anymore (e.g. the target navigated), so the breakpoints can't be hit
+     */
+    public reset(): void {
+        this._installedBreakpoints.forEach(installedBreakpoint => {
+            this.adapter.session.sendEvent(new BreakpointEvent('changed', <DebugProtocol.Breakpoint>{
+                id: installedBreakpoint.id,
+                verified: false,
+                message: localize('dataBp.objectReleased', 'The object of this data breakpoint no longer exists')
+            }));
+        });
+
+        this._installedBreakpoints = [];
+        this._targetsByDataId.clear();
+        this._setDataBreakpointsRequestQ = Promise.resolve();
+    }
+
+    public async dataBreakpointInfo(target: IDataBreakpointTarget | undefined, name: string): Promise<DebugProtocol.DataBreakpointInfoResponse['body']> {
+        if (!target) {
+            return { dataId: null, description: localize('dataBp.notAProperty', 'Data breakpoints can only be set on the properties of objects') };
+        }
+
+        // Keep a reference to the object, so we can still use it after the target resumes
+        const response = await this.chrome.Runtime.callFunctionOn({
+            objectId: target.objectId,
+            functionDeclaration: 'function() { return this; }',
+            objectGroup: DataBreakpoints.OBJECT_GROUP,
+            silent: true
+        });
+        if (response.exceptionDetails) {
+            return { dataId: null, description: ChromeUtils.errorMessageFromExceptionDetails(response.exceptionDetails) };
+        }
+
+        const dataId = String(this._nextDataId++);
+        this._targetsByDataId.set(dataId, { objectId: response.result.objectId, name: target.name });
+        return { dataId, description: name, accessTypes: ['write', 'readWrite'], canPersist: false };
+    }
+
+    /**
+     * Set the data breakpoints requested by the client, replacing all the previous ones
+     */
+    public setDataBreakpoints(args: DebugProtocol.SetDataBreakpointsArguments): Promise<DebugProtocol.SetDataBreakpointsResponse['body']> {
+        const setDataBreakpointsP = this._setDataBreakpointsRequestQ.then(async () => {
+            await this.removeDataBreakpoints();
+
+            const breakpoints: DebugProtocol.Breakpoint[] = [];
+            for (const dataBreakpoint of args.breakpoints) {
+                breakpoints.push(await this.installDataBreakpoint(dataBreakpoint));
+            }
+
+            await this.releaseUnusedTargets(args.breakpoints);
+            return { breakpoints };
+        });
+
+        // Swallow errors in the queue so it doesn't get blocked
+        this._setDataBreakpointsRequestQ = setDataBreakpointsP.catch(() => { });
+        return setDataBreakpointsP;
+    }
+
+    /**
+     * Whether we paused in one of the accessors that implement the data breakpoints
+     */
+    public isDataBreakpointHook(callFrame: Crdp.Debugger.CallFrame | undefined): boolean {
+        return !!callFrame && callFrame.functionName === DataBreakpoints.HOOK_FUNCTION_NAME && this._installedBreakpoints.length > 0;
+    }
+
+    private async installDataBreakpoint(dataBreakpoint: DebugProtocol.DataBreakpoint): Promise<DebugProtocol.Breakpoint> {
+        const id = this._breakpoints.createBreakpointId();
+        const target = this._targetsByDataId.get(dataBreakpoint.dataId);
+        if (!target) {
+            return { id, verified: false, message: localize('dataBp.objectReleased', 'The object of this data breakpoint no longer exists') };
+        }
+
+        if (dataBreakpoint.accessType === 'read') {
+            return { id, verified: false, message: localize('dataBp.readNotSupported', 'Breaking only when a property is read is not supported') };
+        }
+
+        try {
+            const response = await this.chrome.Runtime.callFunctionOn({
+                objectId: target.objectId,
+                functionDeclaration: DataBreakpoints.INSTALL_FUNCTION,
+                arguments: [{ value: target.name }, { value: dataBreakpoint.accessType === 'readWrite' }],
+                objectGroup: DataBreakpoints.OBJECT_GROUP,
+                silent: true
+            });
+            if (response.exceptionDetails) {
+                return { id, verified: false, message: ChromeUtils.errorMessageFromExceptionDetails(response.exceptionDetails) };
+            }
+
+            this._installedBreakpoints.push({ id, target, restoreFunctionId: response.result.objectId });
+            return { id, verified: true };
+        } catch (e) {
+            return { id, verified: false, message: e.message };
+        }
+    }
+
+    private async removeDataBreakpoints(): Promise<void> {
+        for (const installedBreakpoint of this._installedBreakpoints) {
+            try {
+                await this.chrome.Runtime.callFunctionOn({
+                    objectId: installedBreakpoint.restoreFunctionId,
+                    functionDeclaration: 'function() { this(); }',
+                    silent: true
+                });
+                await this.chrome.Runtime.releaseObject({ objectId: installedBreakpoint.restoreFunctionId });
+            } catch (e) {
+                logger.log(`Failed to remove the data breakpoint on ${installedBreakpoint.target.name}: ${e.message}`);
+            }
+        }
+
+        this._installedBreakpoints = [];
+    }
+
+    /**
+     * The client requests the info of every property that the user considers, so release the objects of the properties that didn't get a breakpoint
+     */
+    private async releaseUnusedTargets(dataBreakpoints: DebugProtocol.DataBreakpoint[]): Promise<void> {
+        const usedDataIds = new Set(dataBreakpoints.map(dataBreakpoint => dataBreakpoint.dataId));
+        for (const [dataId, target] of Array.from(this._targetsByDataId.entries())) {
+            if (!usedDataIds.has(dataId)) {
+                this._targetsByDataId.delete(dataId);
+                await this.chrome.Runtime.releaseObject({ objectId: target.objectId })
+                    .catch(() => { /* ignore failures */ });
+            }
+        }
+    }
+}
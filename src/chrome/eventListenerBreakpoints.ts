@@ -0,0 +1,182 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { logger } from 'vscode-debugadapter';
+import { Protocol as Crdp } from 'devtools-protocol';
+
+import { IEventListenerBreakpointsResponseBody, ISetEventListenerBreakpointsArgs } from '../debugAdapterInterfaces';
+import { ChromeConnection } from './chromeConnection';
+import { RuntimeCapabilities } from './runtimeCapabilities';
+
+import * as nls from 'vscode-nls';
+let localize = nls.loadMessageBundle();
+
+/**
+ * 'listener' breakpoints pause when a listener of a DOM event runs, 'instrumentation' breakpoints pause when a native function (e.g. setTimeout) is called
+ */
+type EventListenerBreakpointKind = 'listener' | 'instrumentation';
+
+interface IEventListenerBreakpointCategory {
+    id: string;
+    title: string;
+    kind: EventListenerBreakpointKind;
+
+    // Only pause on the events of this target, e.g. 'xmlhttprequest'. All targets by default.
+    targetName?: string;
+    eventNames: string[];
+}
+
+interface IEventListenerBreakpoint {
+    id: string;
+    title: string;
+    kind: EventListenerBreakpointKind;
+    eventName: string;
+    targetName?: string;
+}
+
+// The same categories that Chrome DevTools shows
+const CATEGORIES: IEventListenerBreakpointCategory[] = [
+    { id: 'animation', title: localize('eventListenerBp.animation', 'Animation'), kind: 'instrumentation',
+        eventNames: ['requestAnimationFrame', 'cancelAnimationFrame', 'requestAnimationFrame.callback'] },
+    { id: 'clipboard', title: localize('eventListenerBp.clipboard', 'Clipboard'), kind: 'listener',
+        eventNames: ['copy', 'cut', 'paste', 'beforecopy', 'beforecut', 'beforepaste'] },
+    { id: 'control', title: localize('eventListenerBp.control', 'Control'), kind: 'listener',
+        eventNames: ['resize', 'scroll', 'zoom', 'focus', 'blur', 'select', 'change', 'submit', 'reset'] },
+    { id: 'domMutation', title: localize('eventListenerBp.domMutation', 'DOM Mutation'), kind: 'listener',
+        eventNames: ['DOMActivate', 'DOMFocusIn', 'DOMFocusOut', 'DOMAttrModified', 'DOMCharacterDataModified', 'DOMNodeInserted',
+            'DOMNodeInsertedIntoDocument', 'DOMNodeRemoved', 'DOMNodeRemovedFromDocument', 'DOMSubtreeModified', 'DOMContentLoaded'] },
+    { id: 'keyboard', title: localize('eventListenerBp.keyboard', 'Keyboard'), kind: 'listener',
+        eventNames: ['keydown', 'keyup', 'keypress', 'input'] },
+    { id: 'load', title: localize('eventListenerBp.load', 'Load'), kind: 'listener',
+        eventNames: ['load', 'beforeunload', 'unload', 'abort', 'error', 'hashchange', 'popstate'] },
+    { id: 'mouse', title: localize('eventListenerBp.mouse', 'Mouse'), kind: 'listener',
+        eventNames: ['auxclick', 'click', 'dblclick', 'mousedown', 'mouseup', 'mouseover', 'mousemove', 'mouseout', 'mouseenter', 'mouseleave',
+            'mousewheel', 'wheel', 'contextmenu'] },
+    { id: 'pointer', title: localize('eventListenerBp.pointer', 'Pointer'), kind: 'listener',
+        eventNames: ['pointerover', 'pointerout', 'pointerenter', 'pointerleave', 'pointerdown', 'pointerup', 'pointermove', 'pointercancel'] },
+    { id: 'timer', title: localize('eventListenerBp.timer', 'Timer'), kind: 'instrumentation',
+        eventNames: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'setTimeout.callback', 'setInterval.callback'] },
+    { id: 'touch', title: localize('eventListenerBp.touch', 'Touch'), kind: 'listener',
+        eventNames: ['touchstart', 'touchmove', 'touchend', 'touchcancel'] },
+    { id: 'xhr', title: localize('eventListenerBp.xhr', 'XHR'), kind: 'listener', targetName: 'xmlhttprequest',
+        eventNames: ['readystatechange', 'load', 'loadstart', 'loadend', 'abort', 'error', 'progress', 'timeout'] }
+];
+
+/**
+ * Pauses when a DOM event listener or a timer, animation frame, etc. callback runs. The breakpoints are set on the main target.
+ */
+export class EventListenerBreakpoints {
+    private _breakpointsById = new Map<string, IEventListenerBreakpoint>();
+    private _enabledIds = new Set<string>();
+
+    private get chrome() { return this._chromeConnection.api; }
+
+    constructor(
+        private readonly _chromeConnection: ChromeConnection,
+        private readonly _runtimeCapabilities: RuntimeCapabilities
+    ) {
+        CATEGORIES.forEach(category => category.eventNames.forEach(eventName => {
+            const id = `${category.id}.${eventName}`;
+            this._breakpointsById.set(id, { id, title: eventName, kind: category.kind, eventName, targetName: category.targetName });
+        }));
+    }
+
+    public getEventListenerBreakpoints(): IEventListenerBreakpointsResponseBody {
+        if (!this._runtimeCapabilities.isSupported('eventListenerBreakpoints')) {
+            return { categories: [] };
+        }
+
+        return {
+            categories: CATEGORIES.map(category => ({
+                id: category.id,
+                title: category.title,
+                breakpoints: category.eventNames
+                    .map(eventName => this._breakpointsById.get(`${category.id}.${eventName}`))
+                    .map(breakpoint => ({ id: breakpoint.id, title: breakpoint.title, enabled: this._enabledIds.has(breakpoint.id) }))
+            }))
+        };
+    }
+
+    /**
+     * Enable or disable breakpoints. The ids can be the ids of breakpoints, or of categories to toggle all their breakpoints.
+     */
+    public async setEventListenerBreakpoints(args: ISetEventListenerBreakpointsArgs): Promise<void> {
+        const breakpoints = this.getBreakpointsForIds(args.ids)
+            .filter(breakpoint => this._enabledIds.has(breakpoint.id) !== args.enabled);
+
+        for (const breakpoint of breakpoints) {
+            if (args.enabled) {
+                await this.setBreakpoint(breakpoint);
+                this._enabledIds.add(breakpoint.id);
+            } else {
+                this._enabledIds.delete(breakpoint.id);
+                await this.removeBreakpoint(breakpoint);
+            }
+        }
+    }
+
+    /**
+     * Set the enabled breakpoints again, e.g. after reconnecting to the target
+     */
+    public async resendBreakpoints(): Promise<void> {
+        for (const id of Array.from(this._enabledIds)) {
+            try {
+                await this.setBreakpoint(this._breakpointsById.get(id));
+            } catch (e) {
+                logger.log(`Failed to set the event listener breakpoint ${id} again: ${e.message}`);
+            }
+        }
+    }
+
+    /**
+     * The title of the enabled breakpoint that caused this pause, or undefined if the pause wasn't caused by one
+     */
+    public getPausedBreakpointTitle(notification: Crdp.Debugger.PausedEvent): string | undefined {
+        const reasons: { reason: string, data?: any }[] = notification.reason === 'ambiguous' && notification.data && Array.isArray(notification.data.reasons) ?
+            notification.data.reasons.map(r => ({ reason: r.reason, data: r.auxData })) :
+            [{ reason: notification.reason, data: notification.data }];
+
+        for (const { reason, data } of reasons) {
+            if (reason === 'EventListener' && data && typeof data.eventName === 'string') {
+                // The event name is prefixed with the kind, e.g. 'listener:click'
+                const breakpoint = Array.from(this._enabledIds)
+                    .map(id => this._breakpointsById.get(id))
+                    .find(bp => `${bp.kind}:${bp.eventName}` === data.eventName && (!bp.targetName || !data.targetName || bp.targetName === data.targetName));
+                if (breakpoint) {
+                    return breakpoint.title;
+                }
+            }
+        }
+
+        return undefined;
+    }
+
+    private getBreakpointsForIds(ids: string[]): IEventListenerBreakpoint[] {
+        const breakpoints: IEventListenerBreakpoint[] = [];
+        ids.forEach(id => {
+            const category = CATEGORIES.find(c => c.id === id);
+            if (category) {
+                category.eventNames.forEach(eventName => breakpoints.push(this._breakpointsById.get(`${category.id}.${eventName}`)));
+            } else if (this._breakpointsById.has(id)) {
+                breakpoints.push(this._breakpointsById.get(id));
+            } else {
+                logger.log(`Unknown event listener breakpoint: ${id}`);
+            }
+        });
+
+        return breakpoints;
+    }
+
+    private setBreakpoint(breakpoint: IEventListenerBreakpoint): Promise<void> {
+        return breakpoint.kind === 'instrumentation' ?
+            this.chrome.DOMDebugger.setInstrumentationBreakpoint({ eventName: breakpoint.eventName }) :
+            this.chrome.DOMDebugger.setEventListenerBreakpoint({ eventName: breakpoint.eventName, targetName: breakpoint.targetName });
+    }
+
+    private removeBreakpoint(breakpoint: IEventListenerBreakpoint): Promise<void> {
+        return breakpoint.kind === 'instrumentation' ?
+            this.chrome.DOMDebugger.removeInstrumentationBreakpoint({ eventName: breakpoint.eventName }) :
+            this.chrome.DOMDebugger.removeEventListenerBreakpoint({ eventName: breakpoint.eventName, targetName: breakpoint.targetName });
+    }
+}
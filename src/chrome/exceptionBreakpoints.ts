@@ -0,0 +1,162 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { DebugProtocol } from 'vscode-debugprotocol';
+import { logger } from 'vscode-debugadapter';
+import { Protocol as Crdp } from 'devtools-protocol';
+
+import { ISetExceptionBreakpointsArgs } from '../debugAdapterInterfaces';
+import * as ChromeUtils from './chromeUtils';
+
+export type PauseOnExceptionsState = 'all' | 'uncaught' | 'none';
+
+/**
+ * The exception breakpoint settings of the client: which filters are enabled, their conditions, and the exception options which
+ * override the filters for specific types of exceptions
+ */
+export class ExceptionBreakpoints {
+    private static CONDITIONS_OBJECT_GROUP = 'exceptionBreakpointConditions';
+
+    private _conditionsByFilter = new Map<string, string | undefined>();
+    private _exceptionOptions: DebugProtocol.ExceptionOptions[] = [];
+    private _pauseOnExceptionsState: PauseOnExceptionsState = 'none';
+
+    public isFilterEnabled(filterId: string): boolean {
+        return this._conditionsByFilter.has(filterId);
+    }
+
+    /**
+     * Store the settings, and return the state that the runtime needs so it pauses on all the exceptions we might want to stop on
+     */
+    public setExceptionBreakpoints(args: ISetExceptionBreakpointsArgs): PauseOnExceptionsState {
+        this._conditionsByFilter = new Map<string, string | undefined>();
+        args.filters.forEach(filterId => this._conditionsByFilter.set(filterId, undefined));
+        (args.filterOptions || []).forEach(filterOptions => this._conditionsByFilter.set(filterOptions.filterId, filterOptions.condition));
+        this._exceptionOptions = args.exceptionOptions || [];
+
+        const breakModes = this._exceptionOptions.map(exceptionOptions => exceptionOptions.breakMode);
+        if (this.isFilterEnabled('all') || this.isFilterEnabled('userCode') || breakModes.indexOf('always') >= 0) {
+            this._pauseOnExceptionsState = 'all';
+        } else if (this.isFilterEnabled('uncaught') || breakModes.some(breakMode => breakMode === 'unhandled' || breakMode === 'userUnhandled')) {
+            this._pauseOnExceptionsState = 'uncaught';
+        } else {
+            this._pauseOnExceptionsState = 'none';
+        }
+
+        return this._pauseOnExceptionsState;
+    }
+
+    /**
+     * Whether we should stop on this exception or promise rejection pause, according to the exception options and the conditions of the filters
+     * @param isInSkippedCode Whether the code of the frame is skipped with skipFiles
+     */
+    public async shouldPauseOnException(notification: Crdp.Debugger.PausedEvent, api: Crdp.ProtocolApi, isInSkippedCode: (callFrame: Crdp.Debugger.CallFrame) => Promise<boolean>): Promise<boolean> {
+        const exception: Crdp.Runtime.RemoteObject = notification.data || {};
+        const uncaughtField = (<any>exception).uncaught; // Currently undocumented, assume it was uncaught when the runtime only pauses on uncaught exceptions
+        const uncaught = typeof uncaughtField === 'boolean' ? uncaughtField : this._pauseOnExceptionsState === 'uncaught';
+
+        const exceptionOptions = this.findExceptionOptions(exception);
+        if (exceptionOptions) {
+            return exceptionOptions.breakMode === 'always' || (exceptionOptions.breakMode !== 'never' && uncaught);
+        }
+
+        let filterIds: string[];
+        if (notification.reason === 'promiseRejection') {
+            filterIds = ['promise_reject'];
+        } else {
+            filterIds = uncaught ? ['all', 'uncaught', 'userCode'] : ['all', 'userCode'];
+        }
+
+        let enabledFilterIds = filterIds.filter(id => this.isFilterEnabled(id));
+        if (!uncaught && enabledFilterIds.indexOf('userCode') >= 0 && await this.isThrownAndCaughtInSkippedCode(notification.callFrames, isInSkippedCode)) {
+            enabledFilterIds = enabledFilterIds.filter(id => id !== 'userCode');
+            if (!enabledFilterIds.length) {
+                return false;
+            }
+        }
+
+        if (!enabledFilterIds.length) {
+            // Unless the exception options made the runtime pause on more exceptions than the filters do, it paused for a reason we don't track (e.g. a subclass set the state)
+            return !this._exceptionOptions.length;
+        }
+
+        for (const filterId of enabledFilterIds) {
+            const condition = this._conditionsByFilter.get(filterId);
+            if (!condition || await this.evaluateCondition(condition, exception, notification.callFrames[0], api)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * We can't tell where a caught exception will be caught, so we assume that an exception thrown when all the frames of the stack are in skipped code
+     * is also caught in skipped code. When there are frames of our code, the exception could be rethrown into our code, so we stop on it.
+     */
+    private async isThrownAndCaughtInSkippedCode(callFrames: Crdp.Debugger.CallFrame[], isInSkippedCode: (callFrame: Crdp.Debugger.CallFrame) => Promise<boolean>): Promise<boolean> {
+        for (const callFrame of callFrames) {
+            if (!await isInSkippedCode(callFrame)) {
+                return false;
+            }
+        }
+
+        return callFrames.length > 0;
+    }
+
+    /**
+     * The options that apply to this exception, matched on the class or the name of the exception (e.g. DOMException or AbortError)
+     */
+    private findExceptionOptions(exception: Crdp.Runtime.RemoteObject): DebugProtocol.ExceptionOptions | undefined {
+        const names = [exception.className, exception.description && exception.description.split(/[:\n]/)[0], exception.type]
+            .filter(name => !!name);
+
+        return this._exceptionOptions.find(exceptionOptions => {
+            const segment = exceptionOptions.path && exceptionOptions.path[exceptionOptions.path.length - 1];
+            if (!segment) {
+                return true;
+            }
+
+            const matches = segment.names.some(name => names.indexOf(name) >= 0);
+            return segment.negate ? !matches : matches;
+        });
+    }
+
+    /**
+     * The condition can use the thrown value as `error`, and the variables in scope where it was thrown. A condition that fails to evaluate is true.
+     */
+    private async evaluateCondition(condition: string, exception: Crdp.Runtime.RemoteObject, callFrame: Crdp.Debugger.CallFrame | undefined, api: Crdp.ProtocolApi): Promise<boolean> {
+        const conditionFn = `(function (error) { return !!(${condition}); })`;
+        try {
+            const fnResponse = callFrame ?
+                await api.Debugger.evaluateOnCallFrame({ callFrameId: callFrame.callFrameId, expression: conditionFn, silent: true, objectGroup: ExceptionBreakpoints.CONDITIONS_OBJECT_GROUP }) :
+                await api.Runtime.evaluate({ expression: conditionFn, silent: true, objectGroup: ExceptionBreakpoints.CONDITIONS_OBJECT_GROUP });
+            if (fnResponse.exceptionDetails) {
+                logger.log(`Exception breakpoint condition ${condition} is invalid: ${ChromeUtils.errorMessageFromExceptionDetails(fnResponse.exceptionDetails)}`);
+                return true;
+            }
+
+            const response = await api.Runtime.callFunctionOn({
+                objectId: fnResponse.result.objectId,
+                functionDeclaration: 'function (error) { return this(error); }',
+                arguments: [ChromeUtils.remoteObjectToCallArgument(exception)],
+                returnByValue: true,
+                silent: true
+            });
+            if (response.exceptionDetails) {
+                logger.log(`Exception breakpoint condition ${condition} threw: ${ChromeUtils.errorMessageFromExceptionDetails(response.exceptionDetails)}`);
+                return true;
+            }
+
+            return !!response.result.value;
+        } catch (e) {
+            logger.log(`Failed to evaluate the exception breakpoint condition ${condition}: ${e.message}`);
+            return true;
+        } finally {
+            // Exceptions can be thrown often, so don't keep a function in the target for each one
+            api.Runtime.releaseObjectGroup({ objectGroup: ExceptionBreakpoints.CONDITIONS_OBJECT_GROUP })
+                .catch(() => { /* ignore failures */ });
+        }
+    }
+}
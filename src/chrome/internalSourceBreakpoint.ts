@@ -10,26 +10,37 @@ export class InternalSourceBreakpoint {
 
     readonly line: number;
     readonly column?: number;
-    readonly condition?: string;
     readonly hitCondition?: string;
+    readonly isLogpoint: boolean;
+
+    // The expression built from the condition and the log message
+    readonly expression?: string;
+
+    // The expression that the runtime evaluates, which reports the exceptions thrown by the expression to the console
+    readonly condition?: string;
 
     constructor(breakpoint: DebugProtocol.SourceBreakpoint) {
         this.line = breakpoint.line;
         this.column = breakpoint.column;
         this.hitCondition = breakpoint.hitCondition;
+        this.isLogpoint = !!breakpoint.logMessage;
 
         if (breakpoint.logMessage) {
-            this.condition = logMessageToExpression(breakpoint.logMessage);
+            this.expression = logMessageToExpression(breakpoint.logMessage);
             if (breakpoint.condition) {
-                this.condition = `(${breakpoint.condition}) && ${this.condition}`;
+                this.expression = `(${breakpoint.condition}) && ${this.expression}`;
             }
         } else if (breakpoint.condition) {
-            this.condition = breakpoint.condition;
+            this.expression = breakpoint.condition;
+        }
+
+        if (this.expression) {
+            this.condition = reportExceptions(this.expression, this.isLogpoint);
         }
     }
 }
 
-function isLogpointStack(stackTrace: Crdp.Runtime.StackTrace | null): boolean {
+export function isLogpointStack(stackTrace: Crdp.Runtime.StackTrace | null): boolean {
     return stackTrace && stackTrace.callFrames.length > 0 && stackTrace.callFrames[0].url === InternalSourceBreakpoint.LOGPOINT_URL;
 }
 
@@ -63,5 +74,14 @@ function logMessageToExpression(msg: string): string {
     format = format.replace('\'', '\\\'');
 
     const argStr = args.length ? `, ${args.join(', ')}` : '';
-    return `console.log('${format}'${argStr});\n//# sourceURL=${InternalSourceBreakpoint.LOGPOINT_URL}`;
+    return `console.log('${format}'${argStr});`;
+}
+
+/**
+ * The runtime treats a condition that throws as false, so the user wouldn't know why the breakpoint isn't hit. Log the exception instead.
+ * The completion value of the try statement is the value of the expression, or false when it throws.
+ */
+function reportExceptions(expression: string, isLogpoint: boolean): string {
+    const description = isLogpoint ? 'log message' : 'condition';
+    return `try {\n${expression}\n} catch (e) {\nconsole.error('Exception in breakpoint ${description}:', e);\nfalse;\n}\n//# sourceURL=${InternalSourceBreakpoint.LOGPOINT_URL}`;
 }
@@ -0,0 +1,184 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import * as fs from 'fs';
+import { logger } from 'vscode-debugadapter';
+import { Protocol as Crdp } from 'devtools-protocol';
+
+/**
+ * One line of the logpoint output file
+ */
+export interface ILogpointOutputEntry {
+    timestamp: number;
+    breakpointId: number;
+
+    // The location of the logpoint in the client, with 1-based lines and columns
+    source: { path: string; line: number; column: number };
+
+    // The values of the expressions in the log message
+    values: any[];
+}
+
+interface IRateLimitWindow {
+    start: number;
+    count: number;
+    suppressed: number;
+
+    // The frame of the logpoint, to tell the user which logpoint the suppressed messages came from
+    callFrame: Crdp.Runtime.CallFrame;
+    timer?: NodeJS.Timer;
+}
+
+/**
+ * Limits how many messages each logpoint shows per second. The messages over the limit are counted, and the count is reported
+ * when the second ends.
+ */
+export class LogpointRateLimiter {
+    public static DEFAULT_MAX_MESSAGES_PER_SECOND = 100;
+
+    private static WINDOW_LENGTH = 1000;
+
+    private _windows = new Map<number, IRateLimitWindow>();
+
+    // 0 means that the messages aren't limited
+    public maxMessagesPerSecond = LogpointRateLimiter.DEFAULT_MAX_MESSAGES_PER_SECOND;
+
+    constructor(private readonly _reportSuppressed: (breakpointId: number, count: number, callFrame: Crdp.Runtime.CallFrame) => void) { }
+
+    /**
+     * Called for each message of a logpoint. Returns whether the message should be shown.
+     */
+    public shouldShow(breakpointId: number, callFrame: Crdp.Runtime.CallFrame, now = Date.now()): boolean {
+        if (!this.maxMessagesPerSecond) {
+            return true;
+        }
+
+        let window = this._windows.get(breakpointId);
+        if (window && now - window.start >= LogpointRateLimiter.WINDOW_LENGTH) {
+            this.endWindow(breakpointId);
+            window = undefined;
+        }
+
+        if (!window) {
+            window = { start: now, count: 0, suppressed: 0, callFrame };
+            this._windows.set(breakpointId, window);
+        }
+
+        window.count++;
+        if (window.count <= this.maxMessagesPerSecond) {
+            return true;
+        }
+
+        window.suppressed++;
+        if (!window.timer) {
+            window.timer = setTimeout(() => this.endWindow(breakpointId), window.start + LogpointRateLimiter.WINDOW_LENGTH - now);
+        }
+
+        return false;
+    }
+
+    /**
+     * Report the messages that were suppressed so far, without waiting for their second to end
+     */
+    public flush(): void {
+        Array.from(this._windows.keys()).forEach(breakpointId => this.endWindow(breakpointId));
+    }
+
+    private endWindow(breakpointId: number): void {
+        const window = this._windows.get(breakpointId);
+        this._windows.delete(breakpointId);
+        if (window && window.suppressed) {
+            clearTimeout(window.timer);
+            this._reportSuppressed(breakpointId, window.suppressed, window.callFrame);
+        }
+    }
+}
+
+/**
+ * Writes the messages of the logpoints to a file, one JSON entry per line. The entries are written in the order they were given,
+ * and when the file can't keep up, at most MAX_QUEUED_ENTRIES wait to be written and the others are dropped.
+ */
+export class LogpointOutputFile {
+    public static MAX_QUEUED_ENTRIES = 10000;
+
+    private _stream: fs.WriteStream;
+    private _isClosed = false;
+
+    // The entries can still be waiting for their location to be mapped
+    private _queuedEntries: Promise<ILogpointOutputEntry>[] = [];
+    private _writingEntries: Promise<void> | undefined;
+    private _droppedEntryCount = 0;
+
+    constructor(public readonly filePath: string) {
+        this._stream = fs.createWriteStream(filePath, { flags: 'w' });
+        this._stream.on('error', e => logger.error(`Failed to write the logpoint output to ${filePath}: ${e.message}`));
+        this._stream.on('close', () => this._isClosed = true);
+    }
+
+    public write(entry: ILogpointOutputEntry | Promise<ILogpointOutputEntry>): void {
+        if (this._queuedEntries.length >= LogpointOutputFile.MAX_QUEUED_ENTRIES) {
+            this._droppedEntryCount++;
+            return;
+        }
+
+        this._queuedEntries.push(Promise.resolve(entry));
+        if (!this._writingEntries) {
+            this._writingEntries = this.writeQueuedEntries()
+                .then(() => this._writingEntries = undefined);
+        }
+    }
+
+    /**
+     * Resolves when the queued entries were written and the file was closed, or right away when it failed to be written
+     */
+    public async close(): Promise<void> {
+        await this._writingEntries;
+        if (this._droppedEntryCount) {
+            logger.log(`Dropped ${this._droppedEntryCount} logpoint messages because ${this.filePath} couldn't be written fast enough`);
+        }
+
+        if (this._isClosed) {
+            return;
+        }
+
+        return new Promise<void>(resolve => {
+            this._stream.on('close', () => resolve());
+            this._stream.end();
+        });
+    }
+
+    private async writeQueuedEntries(): Promise<void> {
+        while (this._queuedEntries.length) {
+            const entry = await this._queuedEntries[0].catch(e => {
+                logger.log('Failed to write the logpoint output: ' + e.message);
+                return undefined;
+            });
+            this._queuedEntries.shift();
+
+            if (!entry) {
+                continue;
+            } else if (this._isClosed) {
+                this._droppedEntryCount++;
+            } else if (!this._stream.write(JSON.stringify(entry) + '\n')) {
+                await this.waitForDrain();
+            }
+        }
+    }
+
+    /**
+     * Wait until the stream takes more data, or was closed because it failed
+     */
+    private waitForDrain(): Promise<void> {
+        return new Promise<void>(resolve => {
+            const onDrainOrClose = () => {
+                this._stream.removeListener('drain', onDrainOrClose);
+                this._stream.removeListener('close', onDrainOrClose);
+                resolve();
+            };
+
+            this._stream.on('drain', onDrainOrClose);
+            this._stream.on('close', onDrainOrClose);
+        });
+    }
+}
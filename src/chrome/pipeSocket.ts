@@ -0,0 +1,111 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { EventEmitter } from 'events';
+import * as WebSocket from 'ws';
+import { logger } from 'vscode-debugadapter';
+
+import { ITransportSocket } from './chromeConnection';
+import { CrdpTrafficRecorder } from './crdpRecording/crdpTrafficRecorder';
+
+/**
+ * The pipes of a target that was launched with --remote-debugging-pipe, e.g. with
+ * spawn(chromePath, ['--remote-debugging-pipe'], { stdio: ['ignore', 'ignore', 'ignore', 'pipe', 'pipe'] })
+ */
+export interface IPipeStreams {
+    /** The pipe that the target reads the messages from (fd 3 of the target process) */
+    writable: NodeJS.WritableStream;
+
+    /** The pipe that the target writes the messages to (fd 4 of the target process) */
+    readable: NodeJS.ReadableStream;
+}
+
+/**
+ * A socket which exchanges NUL-delimited JSON messages with the target over a pair of pipes
+ */
+export class PipeSocket extends EventEmitter implements ITransportSocket {
+    private static MESSAGE_DELIMITER = 0;
+
+    public readyState = WebSocket.CONNECTING;
+
+    // The chunks of a message that we didn't receive the delimiter of yet
+    private _pendingChunks: Buffer[] = [];
+
+    constructor(private readonly _pipe: IPipeStreams, private readonly _trafficRecorder?: CrdpTrafficRecorder) {
+        super();
+
+        this._pipe.readable.on('data', (chunk: Buffer | string) => this.onData(typeof chunk === 'string' ? Buffer.from(chunk) : chunk));
+        this._pipe.readable.on('end', () => this.onClosed());
+        this._pipe.readable.on('error', e => {
+            logger.log('Pipe error: ' + e.toString());
+            this.onClosed();
+        });
+        this._pipe.writable.on('error', e => {
+            logger.log('Pipe error: ' + e.toString());
+            this.onClosed();
+        });
+
+        // Pipes are open from the start, but listeners expect the 'open' event to be asynchronous, like a websocket's
+        setImmediate(() => {
+            if (this.readyState === WebSocket.CONNECTING) {
+                this.readyState = WebSocket.OPEN;
+                this.emit('open', this);
+            }
+        });
+    }
+
+    public send(message: string): void {
+        if (this.readyState !== WebSocket.OPEN) {
+            logger.log(`→ Warning: Target not open! Message: ${message}`);
+            return;
+        }
+
+        this._pipe.writable.write(message);
+        this._pipe.writable.write('\u0000');
+        logger.verbose('→ To target: ' + message);
+        if (this._trafficRecorder) {
+            this._trafficRecorder.record('toTarget', message);
+        }
+    }
+
+    public close(): void {
+        this._pipe.writable.end();
+        this.onClosed();
+    }
+
+    private onData(chunk: Buffer): void {
+        let messageStart = 0;
+        let messageEnd = chunk.indexOf(PipeSocket.MESSAGE_DELIMITER);
+        while (messageEnd >= 0) {
+            this._pendingChunks.push(chunk.slice(messageStart, messageEnd));
+            const message = Buffer.concat(this._pendingChunks).toString('utf8');
+            this._pendingChunks = [];
+            this.onMessage(message);
+
+            messageStart = messageEnd + 1;
+            messageEnd = chunk.indexOf(PipeSocket.MESSAGE_DELIMITER, messageStart);
+        }
+
+        if (messageStart < chunk.length) {
+            this._pendingChunks.push(chunk.slice(messageStart));
+        }
+    }
+
+    private onMessage(message: string): void {
+        logger.verbose('← From target: ' + message);
+        if (this._trafficRecorder) {
+            this._trafficRecorder.record('fromTarget', message);
+        }
+
+        this.emit('message', message);
+    }
+
+    private onClosed(): void {
+        if (this.readyState !== WebSocket.CLOSED) {
+            this.readyState = WebSocket.CLOSED;
+            logger.log('Pipe closed');
+            this.emit('close');
+        }
+    }
+}
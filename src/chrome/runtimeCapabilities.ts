@@ -0,0 +1,163 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { logger } from 'vscode-debugadapter';
+import { Protocol as Crdp } from 'devtools-protocol';
+
+import { Version, TargetVersions } from './chromeTargetDiscoveryStrategy';
+
+export type RuntimeFeature =
+    /** Debugger.getPossibleBreakpoints works, so breakpoints can be set on columns */
+    'columnBreakpoints' |
+    /** Debugger.setAsyncCallStackDepth */
+    'asyncCallStacks' |
+    /** Debugger.setBlackboxPatterns, used to implement skipFiles */
+    'blackboxPatterns' |
+    /** Debugger.restartFrame */
+    'restartFrame' |
+    /** DOMDebugger.setInstrumentationBreakpoint, used by the 'instrument' break on load strategy */
+    'instrumentationBreakpoints' |
+    /** DOMDebugger.setEventListenerBreakpoint */
+    'eventListenerBreakpoints' |
+    /** DOMDebugger.setXHRBreakpoint */
+    'xhrBreakpoints' |
+    /** The throwOnSideEffect option of Runtime.evaluate, which Chrome supports since version 66 */
+    'throwOnSideEffect' |
+    /** The runtime pauses an extra time on instrumentation breakpoints. Chrome stopped doing it on version 69 (https://bugs.chromium.org/p/chromium/issues/detail?id=882909) */
+    'instrumentationPauseExtraEvent';
+
+/**
+ * What we know about the runtime that we are attached to
+ */
+export interface IRuntimeInfo {
+    /** The product reported by Browser.getVersion, e.g. "Chrome/76.0.3809.100", or an empty string if it's unknown */
+    product: string;
+    browserVersion: Version;
+    protocolVersion: Version;
+    domains: Map<string, Crdp.Schema.Domain>;
+}
+
+/**
+ * Overrides the features of runtimes that behave differently than Chrome (e.g. Node, Edge, or hosts that embed V8), which we can't detect by probing
+ */
+export interface IRuntimeQuirkProfile {
+    /** Used in the logs */
+    name: string;
+
+    features: Partial<Record<RuntimeFeature, boolean>>;
+    appliesTo(runtime: IRuntimeInfo): boolean;
+}
+
+/**
+ * Whether the runtime supports each feature. The features are detected after attaching with Schema.getDomains, Browser.getVersion and by probing,
+ * and then the quirk profiles that apply to the runtime can override them.
+ */
+export class RuntimeCapabilities {
+    // The features we assume when they weren't detected yet, or can't be detected
+    private static DEFAULT_FEATURES: Record<RuntimeFeature, boolean> = {
+        columnBreakpoints: false, // Until the probe succeeds
+        asyncCallStacks: true,
+        blackboxPatterns: true,
+        restartFrame: true,
+        instrumentationBreakpoints: true,
+        eventListenerBreakpoints: true,
+        xhrBreakpoints: true,
+        throwOnSideEffect: true,
+        instrumentationPauseExtraEvent: false
+    };
+
+    private _runtime: IRuntimeInfo = {
+        product: '',
+        browserVersion: Version.unknownVersion(),
+        protocolVersion: Version.unknownVersion(),
+        domains: new Map<string, Crdp.Schema.Domain>()
+    };
+
+    private _detectedFeatures: Partial<Record<RuntimeFeature, boolean>> = {};
+    private _probedFeatures: Partial<Record<RuntimeFeature, boolean>> = {};
+    private _overriddenFeatures: Partial<Record<RuntimeFeature, boolean>> = {};
+
+    constructor(private readonly _quirkProfiles: IRuntimeQuirkProfile[] = []) { }
+
+    public get runtime(): IRuntimeInfo {
+        return this._runtime;
+    }
+
+    public registerQuirkProfile(quirkProfile: IRuntimeQuirkProfile): void {
+        this._quirkProfiles.push(quirkProfile);
+    }
+
+    /**
+     * Detect the features of the runtime. The versions of the target are only used when the runtime doesn't support Browser.getVersion.
+     * The results of the probes are kept, because they don't change when we reconnect to the same runtime.
+     */
+    public async detect(api: Crdp.ProtocolApi, targetVersions: Promise<TargetVersions>): Promise<void> {
+        const domains = new Map<string, Crdp.Schema.Domain>();
+        try {
+            const domainResponse = await api.Schema.getDomains();
+            domainResponse.domains.forEach(domain => domains.set(domain.name, domain));
+        } catch (e) {
+            // If getDomains isn't supported for some reason, skip this
+        }
+
+        this._runtime = Object.assign({ domains }, await this.getVersions(api, targetVersions));
+        this._detectedFeatures = {
+            instrumentationPauseExtraEvent: !this._runtime.browserVersion.isAtLeastVersion(69, 0)
+        };
+        if (this._runtime.browserVersion.isAtLeastVersion(1, 0)) {
+            // The runtimes that don't report a Chrome version keep the default
+            this._detectedFeatures.throwOnSideEffect = this._runtime.browserVersion.isAtLeastVersion(66, 0);
+        }
+
+        if (domains.size) {
+            this._detectedFeatures.instrumentationBreakpoints = domains.has('DOMDebugger');
+            this._detectedFeatures.eventListenerBreakpoints = domains.has('DOMDebugger');
+            this._detectedFeatures.xhrBreakpoints = domains.has('DOMDebugger');
+        }
+
+        this._overriddenFeatures = {};
+        this._quirkProfiles
+            .filter(quirkProfile => quirkProfile.appliesTo(this._runtime))
+            .forEach(quirkProfile => {
+                logger.log(`RuntimeCapabilities: Applying the quirk profile ${quirkProfile.name}: ${JSON.stringify(quirkProfile.features)}`);
+                Object.assign(this._overriddenFeatures, quirkProfile.features);
+            });
+    }
+
+    public isSupported(feature: RuntimeFeature): boolean {
+        const sources = [this._overriddenFeatures, this._probedFeatures, this._detectedFeatures, RuntimeCapabilities.DEFAULT_FEATURES];
+        return sources.find(features => typeof features[feature] === 'boolean')[feature];
+    }
+
+    public wasProbed(feature: RuntimeFeature): boolean {
+        return typeof this._probedFeatures[feature] === 'boolean';
+    }
+
+    /**
+     * Record whether using a feature worked. A quirk profile still overrides the result.
+     */
+    public recordProbeResult(feature: RuntimeFeature, isSupported: boolean): void {
+        this._probedFeatures[feature] = isSupported;
+    }
+
+    private async getVersions(api: Crdp.ProtocolApi, targetVersions: Promise<TargetVersions>): Promise<{ product: string, browserVersion: Version, protocolVersion: Version }> {
+        try {
+            const response = await api.Browser.getVersion();
+            const chromePrefix = 'Chrome/';
+            return {
+                product: response.product,
+                browserVersion: response.product.startsWith(chromePrefix) ? Version.parse(response.product.substr(chromePrefix.length)) : Version.unknownVersion(),
+                protocolVersion: Version.parse(response.protocolVersion)
+            };
+        } catch (e) {
+            // Not supported by all runtimes (e.g. Node), use the versions from the discovery of the target instead
+            const versions = targetVersions && await targetVersions.catch(() => undefined);
+            return {
+                product: '',
+                browserVersion: versions ? versions.browser : Version.unknownVersion(),
+                protocolVersion: versions ? versions.protocol : Version.unknownVersion()
+            };
+        }
+    }
+}
@@ -8,6 +8,7 @@ import { ChromeConnection } from './chromeConnection';
 import { Protocol as Crdp } from 'devtools-protocol';
 import { ScriptContainer } from './scripts';
 import { Transformers } from './chromeDebugAdapter';
+import { RuntimeCapabilities } from './runtimeCapabilities';
 import * as utils from '../utils';
 
 export class ScriptSkipper {
@@ -16,7 +17,7 @@ export class ScriptSkipper {
     private _blackboxedRegexes: RegExp[] = [];
 
     private get chrome() { return this._chromeConnection.api; }
-    constructor(private readonly _chromeConnection: ChromeConnection, private readonly _transformers: Transformers) {}
+    constructor(private readonly _chromeConnection: ChromeConnection, private readonly _transformers: Transformers, private readonly _runtimeCapabilities?: RuntimeCapabilities) {}
 
     public init(skipFiles, skipFileRegExps) {
         let patterns: string[] = [];
@@ -182,9 +183,31 @@ export class ScriptSkipper {
     }
 
     private refreshBlackboxPatterns(): void {
-        this.chrome.Debugger.setBlackboxPatterns({
+        this.applyBlackboxPatterns(this.chrome);
+    }
+
+    /**
+     * Set the current skipFiles patterns on a target, e.g. a child target that was attached after init was called
+     */
+    public applyBlackboxPatterns(api: Crdp.ProtocolApi): Promise<void> {
+        if (!this._blackboxedRegexes.length) {
+            return Promise.resolve();
+        }
+
+        if (this._runtimeCapabilities && !this._runtimeCapabilities.isSupported('blackboxPatterns')) {
+            this.warnNoSkipFiles();
+            return Promise.resolve();
+        }
+
+        return api.Debugger.setBlackboxPatterns({
             patterns: this._blackboxedRegexes.map(regex => regex.source)
-        }).catch(() => this.warnNoSkipFiles());
+        }).catch(() => {
+            if (this._runtimeCapabilities) {
+                this._runtimeCapabilities.recordProbeResult('blackboxPatterns', false);
+            }
+
+            this.warnNoSkipFiles();
+        });
     }
 
     /**
@@ -28,7 +28,14 @@ export class ScriptContainer {
 
     private _scriptsById = new Map<Crdp.Runtime.ScriptId, CrdpScript>();
     private _scriptsByUrl = new Map<string, CrdpScript>();
-    private _sourceHandles = new utils.ReverseHandles<ISourceContainer>();
+    private _sourceHandles: utils.ReverseHandles<ISourceContainer>;
+
+    /**
+     * @param startSourceHandle The first sourceReference, so that the sourceReferences of several containers don't overlap
+     */
+    constructor(startSourceHandle?: number) {
+        this._sourceHandles = new utils.ReverseHandles<ISourceContainer>(startSourceHandle);
+    }
 
     /**
      * @deprecated use the function calls instead
@@ -0,0 +1,234 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { DebugProtocol } from 'vscode-debugprotocol';
+import { logger } from 'vscode-debugadapter';
+import { Protocol as Crdp } from 'devtools-protocol';
+
+import { ISnapshot, ISnapshotsResponseBody } from '../debugAdapterInterfaces';
+import { ChromeConnection } from './chromeConnection';
+import { VariablesManager } from './variablesManager';
+import { BaseVariableContainer, getRemoteObjectPreview_primitive, createPrimitiveVariableWithValue } from './variables';
+import * as ChromeUtils from './chromeUtils';
+
+import * as nls from 'vscode-nls';
+let localize = nls.loadMessageBundle();
+
+/**
+ * A copy of a value, made in the target when the snapshot was taken
+ */
+interface ISnapshotValue {
+    type: string;
+    description: string;
+    properties?: ISnapshotProperty[];
+
+    // Whether some properties were left out because the object has too many
+    truncated?: boolean;
+}
+
+interface ISnapshotProperty {
+    name: string;
+    value: ISnapshotValue;
+}
+
+/**
+ * A snapshot with its values. Its handles are created when the snapshots are requested, and released when it is evicted.
+ */
+interface IStoredSnapshot {
+    snapshot: Pick<ISnapshot, 'id' | 'breakpointId' | 'time' | 'stackFrames'>;
+    properties: ISnapshotProperty[];
+    handles: number[];
+}
+
+const MAX_DEPTH = 3;
+const MAX_PROPERTIES = 50;
+const MAX_STRING_LENGTH = 1000;
+
+/**
+ * Runs in the target with an object as `this`, and returns a copy of it that is limited in depth and size. It reads the properties
+ * without calling their getters, so taking the snapshot doesn't change the state of the target. The proxies among the variables are skipped
+ * before this runs, but the target can't tell a nested proxy from its target, so the traps of those can still run.
+ */
+const SNAPSHOT_FUNCTION = `function (maxDepth, maxProperties, maxStringLength) {
+    const seen = new Set();
+    function readOwnValue(object, name) {
+        const descriptor = Object.getOwnPropertyDescriptor(object, name);
+        return descriptor && 'value' in descriptor ? descriptor.value : undefined;
+    }
+
+    function describe(value, type) {
+        try {
+            if (type === 'function') return 'function ' + (readOwnValue(value, 'name') || '(anonymous)');
+            if (Array.isArray(value)) return 'Array(' + readOwnValue(value, 'length') + ')';
+            const prototype = Object.getPrototypeOf(value);
+            const constructor = prototype && readOwnValue(prototype, 'constructor');
+            return (typeof constructor === 'function' && readOwnValue(constructor, 'name')) || 'Object';
+        } catch (e) {
+            return 'Object';
+        }
+    }
+
+    function toSnapshot(value, depth) {
+        const type = typeof value;
+        if (value === null) return { type: 'object', description: 'null' };
+        if (type === 'string') return { type, description: JSON.stringify(value.length > maxStringLength ? value.substr(0, maxStringLength) + '...' : value) };
+        if (type !== 'object' && type !== 'function') return { type, description: String(value) };
+
+        const description = describe(value, type);
+        if (type === 'function' || depth >= maxDepth || seen.has(value)) return { type, description };
+
+        seen.add(value);
+        let names;
+        try {
+            names = Object.getOwnPropertyNames(value);
+        } catch (e) {
+            names = [];
+        }
+
+        const properties = names.slice(0, maxProperties).map(name => {
+            const descriptor = Object.getOwnPropertyDescriptor(value, name);
+            const propertyValue = descriptor && 'value' in descriptor ?
+                toSnapshot(descriptor.value, depth + 1) :
+                { type: 'accessor', description: '(...)' };
+            return { name, value: propertyValue };
+        });
+        return { type, description, properties, truncated: names.length > maxProperties };
+    }
+
+    return toSnapshot(this, 0);
+}`;
+
+/**
+ * Shows the values of a snapshot in the variables view. The handles are created in the console context, so they stay valid after the target resumes,
+ * and are added to `_handles` so they can be released with the snapshot.
+ */
+class SnapshotValueContainer extends BaseVariableContainer {
+    constructor(private readonly _properties: ISnapshotProperty[], private readonly _handles: number[], private readonly _truncated = false) {
+        super(undefined);
+    }
+
+    public static createHandle(variablesManager: VariablesManager, properties: ISnapshotProperty[], handles: number[], truncated?: boolean): number {
+        const handle = variablesManager.createHandle(new SnapshotValueContainer(properties, handles, truncated), 'repl');
+        handles.push(handle);
+        return handle;
+    }
+
+    public expand(variablesManager: VariablesManager): Promise<DebugProtocol.Variable[]> {
+        const variables = this._properties.map(property => <DebugProtocol.Variable>{
+            name: property.name,
+            value: property.value.description,
+            type: property.value.type,
+            variablesReference: property.value.properties && property.value.properties.length ?
+                SnapshotValueContainer.createHandle(variablesManager, property.value.properties, this._handles, property.value.truncated) :
+                0
+        });
+
+        if (this._truncated) {
+            variables.push(createPrimitiveVariableWithValue('...', localize('snapshot.truncated', 'More properties were not captured')));
+        }
+
+        return Promise.resolve(variables);
+    }
+}
+
+/**
+ * Snapshot points are breakpoints that capture the stack and the local variables of the top frame when they are hit, and resume right away.
+ */
+export class SnapshotPoints {
+    private static MAX_SNAPSHOTS = 100;
+
+    private _snapshots: IStoredSnapshot[] = [];
+    private _nextSnapshotId = 1;
+
+    private get chrome() { return this._chromeConnection.api; }
+
+    constructor(
+        private readonly _chromeConnection: ChromeConnection,
+        private readonly _variablesManager: VariablesManager
+    ) { }
+
+    /**
+     * Called while paused on the snapshot points
+     * @param stackFrames The stack frames of the pause, mapped to the authored locations
+     */
+    public async capture(breakpointIds: number[], callFrame: Crdp.Debugger.CallFrame, stackFrames: DebugProtocol.StackFrame[], api = this.chrome): Promise<void> {
+        const time = Date.now();
+        const properties: ISnapshotProperty[] = [];
+        if (callFrame.this && callFrame.this.type !== 'undefined') {
+            properties.push({ name: 'this', value: await this.remoteObjectToSnapshot(api, callFrame.this, MAX_DEPTH) });
+        }
+
+        const localScopes = (callFrame.scopeChain || []).filter(scope => scope.type === 'local' || scope.type === 'block' || scope.type === 'catch');
+        for (const scope of localScopes) {
+            properties.push(...await this.getScopeSnapshot(api, scope));
+        }
+
+        const snapshotStackFrames = stackFrames.map(({ name, source, line, column }) => ({ name, source, line, column }));
+        breakpointIds.forEach(breakpointId => {
+            this._snapshots.push({ snapshot: { id: this._nextSnapshotId++, breakpointId, time, stackFrames: snapshotStackFrames }, properties, handles: [] });
+        });
+
+        const evicted = this._snapshots.splice(0, this._snapshots.length - SnapshotPoints.MAX_SNAPSHOTS);
+        evicted.forEach(storedSnapshot => this._variablesManager.releaseHandles(storedSnapshot.handles));
+    }
+
+    public getSnapshots(): ISnapshotsResponseBody {
+        const snapshots = this._snapshots.map(storedSnapshot => {
+            // The first handle of a snapshot is the one of its top level
+            const variablesReference = storedSnapshot.handles.length ?
+                storedSnapshot.handles[0] :
+                SnapshotValueContainer.createHandle(this._variablesManager, storedSnapshot.properties, storedSnapshot.handles);
+            return { ...storedSnapshot.snapshot, variablesReference };
+        });
+
+        return { snapshots };
+    }
+
+    private async getScopeSnapshot(api: Crdp.ProtocolApi, scope: Crdp.Debugger.Scope): Promise<ISnapshotProperty[]> {
+        try {
+            const response = await api.Runtime.getProperties({ objectId: scope.object.objectId, ownProperties: true });
+            const properties = response.result.filter(propertyDescriptor => !!propertyDescriptor.value).slice(0, MAX_PROPERTIES);
+            return Promise.all(properties.map(async propertyDescriptor => ({
+                name: propertyDescriptor.name,
+                value: await this.remoteObjectToSnapshot(api, propertyDescriptor.value, MAX_DEPTH - 1)
+            })));
+        } catch (e) {
+            logger.log(`Failed to get the variables of the ${scope.type} scope for a snapshot: ${e.message}`);
+            return [];
+        }
+    }
+
+    private async remoteObjectToSnapshot(api: Crdp.ProtocolApi, object: Crdp.Runtime.RemoteObject, maxDepth: number): Promise<ISnapshotValue> {
+        // Reading the properties of a proxy would run its traps
+        if (object.subtype === 'proxy') {
+            return { type: object.type, description: object.description || 'Proxy' };
+        }
+
+        if (!object.objectId) {
+            const value = object.type === 'string' && typeof object.value === 'string' && object.value.length > MAX_STRING_LENGTH ?
+                { ...object, value: object.value.substr(0, MAX_STRING_LENGTH) + '...' } :
+                object;
+            return { type: object.type, description: getRemoteObjectPreview_primitive(value, /*stringify=*/true) };
+        }
+
+        try {
+            const response = await api.Runtime.callFunctionOn({
+                objectId: object.objectId,
+                functionDeclaration: SNAPSHOT_FUNCTION,
+                arguments: [{ value: maxDepth }, { value: MAX_PROPERTIES }, { value: MAX_STRING_LENGTH }],
+                returnByValue: true,
+                silent: true
+            });
+            if (response.exceptionDetails) {
+                logger.log(`Failed to copy a value for a snapshot: ${ChromeUtils.errorMessageFromExceptionDetails(response.exceptionDetails)}`);
+            } else {
+                return response.result.value;
+            }
+        } catch (e) {
+            logger.log(`Failed to copy a value for a snapshot: ${e.message}`);
+        }
+
+        return { type: object.type, description: object.description || '' };
+    }
+}
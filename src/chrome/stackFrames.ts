@@ -11,6 +11,7 @@ import { Transformers } from './chromeDebugAdapter';
 import { ScriptContainer } from './scripts';
 import { SmartStepper } from './smartStep';
 import { ScriptSkipper } from './scriptSkipping';
+import { RuntimeCapabilities } from './runtimeCapabilities';
 
 import * as ChromeUtils from './chromeUtils';
 import * as utils from '../utils';
@@ -24,15 +25,20 @@ let localize = nls.loadMessageBundle();
 
 export class StackFrames {
 
-    private _frameHandles = new Handles<Crdp.Debugger.CallFrame>();
+    private _frameHandles: Handles<Crdp.Debugger.CallFrame>;
 
-    constructor() {}
+    /**
+     * @param _startHandle The first frame id, so that the frame ids of several instances don't overlap
+     */
+    constructor(private readonly _startHandle?: number) {
+        this._frameHandles = new Handles<Crdp.Debugger.CallFrame>(this._startHandle);
+    }
 
     /**
      * Clear the currently stored stack frames
      */
     reset() {
-        this._frameHandles.reset();
+        this._frameHandles = new Handles<Crdp.Debugger.CallFrame>(this._startHandle);
     }
 
     /**
@@ -42,17 +48,20 @@ export class StackFrames {
         return this._frameHandles.get(frameId);
     }
 
-    public async getStackTrace({ args, scripts, originProvider, scriptSkipper, smartStepper, transformers, pauseEvent }:
+    public async getStackTrace({ args, scripts, originProvider, scriptSkipper, smartStepper, transformers, pauseEvent, runtimeCapabilities }:
                 { args: DebugProtocol.StackTraceArguments;
                   scripts: ScriptContainer;
                   originProvider: (url: string) => string;
                   scriptSkipper: ScriptSkipper;
                   smartStepper: SmartStepper;
                   transformers: Transformers;
-                  pauseEvent: Crdp.Debugger.PausedEvent; }): Promise<IStackTraceResponseBody> {
+                  pauseEvent: Crdp.Debugger.PausedEvent;
+                  runtimeCapabilities: RuntimeCapabilities; }): Promise<IStackTraceResponseBody> {
 
+        // A quirk profile or a failed setAsyncCallStackDepth can turn off the async frames of a runtime
+        const asyncStackTrace = runtimeCapabilities.isSupported('asyncCallStacks') ? pauseEvent.asyncStackTrace : undefined;
         let stackFrames = pauseEvent.callFrames.map(frame => this.callFrameToStackFrame(frame, scripts, originProvider))
-            .concat(this.asyncFrames(pauseEvent.asyncStackTrace, scripts, originProvider));
+            .concat(this.asyncFrames(asyncStackTrace, scripts, originProvider));
 
         const totalFrames = stackFrames.length;
         if (typeof args.startFrame === 'number') {
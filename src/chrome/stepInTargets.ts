@@ -0,0 +1,145 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { DebugProtocol } from 'vscode-debugprotocol';
+import { logger } from 'vscode-debugadapter';
+import { Protocol as Crdp } from 'devtools-protocol';
+
+import { ChromeConnection } from './chromeConnection';
+import { Breakpoints } from './breakpoints';
+import { ScriptContainer } from './scripts';
+import { Transformers } from './chromeDebugAdapter';
+
+export type StepInTargetStep = 'stepInto' | 'stepOut';
+
+interface IPendingStepInTarget {
+    location: Crdp.Debugger.Location;
+
+    // The number of frames on the stack when the target was chosen
+    depth: number;
+}
+
+/* Rationale: The runtime can only step into the next call that runs. To step into a later call of the line, we step into
+   each call that runs before it and step out of it again, until we enter a frame whose caller is at the location of the
+   chosen call. The arguments of a call run before it, so on a line like `render(parse(x))` we step in and out of parse
+   to get into render.
+*/
+
+/**
+ * The calls on the current line of the top frame that the user can choose to step into
+ */
+export class StepInTargets {
+    private _nextTargetId = 0;
+    private _targetsById = new Map<number, Crdp.Debugger.Location>();
+    private _pendingTarget: IPendingStepInTarget | undefined;
+
+    private get chrome() { return this._chromeConnection.api; }
+
+    constructor(
+        private readonly _chromeConnection: ChromeConnection,
+        private readonly _transformers: Transformers,
+        private readonly _breakpoints: Breakpoints,
+        private readonly _scriptContainer: ScriptContainer
+    ) { }
+
+    /**
+     * The targets are named with the names from the source map when it has them, otherwise with the names in the script
+     */
+    public async getStepInTargets(callFrame: Crdp.Debugger.CallFrame): Promise<DebugProtocol.StepInTarget[]> {
+        const locations = await this._breakpoints.getCallLocations(callFrame.location);
+        if (!locations.length) {
+            return [];
+        }
+
+        const script = this._scriptContainer.getScriptById(callFrame.location.scriptId);
+        const generatedPath = script && (this._transformers.pathTransformer.getClientPathFromTargetPath(script.url) || script.url);
+        const scriptLines = await this.getScriptLines(callFrame.location.scriptId);
+
+        const targets: DebugProtocol.StepInTarget[] = [];
+        for (const location of locations) {
+            const mapped = generatedPath && await this._transformers.sourceMapTransformer.mapToAuthored(generatedPath, location.lineNumber, location.columnNumber);
+            const label = (mapped && mapped.name) || calleeNameAt(scriptLines[location.lineNumber] || '', location.columnNumber || 0);
+
+            const id = this._nextTargetId++;
+            this._targetsById.set(id, { scriptId: location.scriptId, lineNumber: location.lineNumber, columnNumber: location.columnNumber });
+            targets.push({ id, label });
+        }
+
+        return targets;
+    }
+
+    /**
+     * Called before stepping in, when the client chose a target
+     * @param depth The number of frames on the stack
+     */
+    public setPendingTarget(targetId: number, depth: number): void {
+        const location = this._targetsById.get(targetId);
+        this._pendingTarget = location && { location, depth };
+    }
+
+    /**
+     * Returns the step to take when we paused on the way to the chosen call, or undefined when this pause should be shown
+     */
+    public onPaused(notification: Crdp.Debugger.PausedEvent): StepInTargetStep | undefined {
+        this._targetsById.clear();
+
+        const target = this._pendingTarget;
+        this._pendingTarget = undefined;
+        if (!target || notification.reason !== 'other' || (notification.hitBreakpoints && notification.hitBreakpoints.length)) {
+            return undefined;
+        }
+
+        const callFrames = notification.callFrames;
+        if (callFrames.length === target.depth + 1 && locationsEqual(callFrames[1].location, target.location)) {
+            // Entered the chosen call
+            return undefined;
+        }
+
+        if (callFrames.length > target.depth) {
+            // Entered a call that runs before the chosen one
+            this._pendingTarget = target;
+            return 'stepOut';
+        }
+
+        if (callFrames.length === target.depth && isOnSameLine(callFrames[0].location, target.location)) {
+            // Still on the way to the chosen call. Calls that run first can be at later columns, e.g. the calls in the arguments
+            this._pendingTarget = target;
+            return 'stepInto';
+        }
+
+        // Left the line without entering the chosen call, e.g. it called a native function
+        return undefined;
+    }
+
+    private async getScriptLines(scriptId: Crdp.Runtime.ScriptId): Promise<string[]> {
+        try {
+            const response = await this.chrome.Debugger.getScriptSource({ scriptId });
+            return response.scriptSource.split(/\r?\n/);
+        } catch (e) {
+            logger.log(`Failed to get the source of script ${scriptId} for the step in targets: ${e.message}`);
+            return [];
+        }
+    }
+}
+
+/**
+ * Depending on the kind of call, the runtime reports it at the start of the callee name or at the open paren
+ */
+function calleeNameAt(line: string, column: number): string {
+    const nameAfter = /^[\w$]+/.exec(line.substr(column));
+    if (nameAfter) {
+        return nameAfter[0];
+    }
+
+    const nameBefore = /[\w$]+(?=\s*\(?$)/.exec(line.substr(0, column + 1));
+    return nameBefore ? nameBefore[0] : line.substr(column).trim();
+}
+
+function locationsEqual(a: Crdp.Debugger.Location, b: Crdp.Debugger.Location): boolean {
+    return a.scriptId === b.scriptId && a.lineNumber === b.lineNumber && (a.columnNumber || 0) === (b.columnNumber || 0);
+}
+
+function isOnSameLine(a: Crdp.Debugger.Location, b: Crdp.Debugger.Location): boolean {
+    return a.scriptId === b.scriptId && a.lineNumber === b.lineNumber;
+}
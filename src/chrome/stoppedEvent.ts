@@ -11,10 +11,13 @@ import * as utils from '../utils';
 import * as nls from 'vscode-nls';
 const localize = nls.loadMessageBundle();
 
-export type ReasonType = 'step' | 'breakpoint' | 'exception' | 'pause' | 'entry' | 'debugger_statement' | 'frame_entry' | 'promise_rejection';
+export type ReasonType = 'step' | 'breakpoint' | 'exception' | 'pause' | 'entry' | 'debugger_statement' | 'frame_entry' | 'promise_rejection' | 'function_breakpoint' | 'data_breakpoint' | 'event_listener_breakpoint' | 'xhr_breakpoint';
 
 export class StoppedEvent2 extends StoppedEvent {
-    constructor(reason: ReasonType, threadId: number, exception?: Crdp.Runtime.RemoteObject) {
+    /**
+     * @param reasonDetail What caused the pause, for the reasons that have more details (e.g. the event of an event listener breakpoint)
+     */
+    constructor(reason: ReasonType, threadId: number, exception?: Crdp.Runtime.RemoteObject, reasonDetail?: string) {
         const exceptionText = exception && exception.description && utils.firstLine(exception.description);
         super(reason, threadId, exceptionText);
 
@@ -25,6 +28,22 @@ export class StoppedEvent2 extends StoppedEvent {
             case 'breakpoint':
                 (<DebugProtocol.StoppedEvent>this).body.description = localize('reason.description.breakpoint', 'Paused on breakpoint');
                 break;
+            case 'function_breakpoint':
+                (<DebugProtocol.StoppedEvent>this).body.description = localize('reason.description.functionBreakpoint', 'Paused on function breakpoint');
+                this.body.reason = 'function breakpoint';
+                break;
+            case 'data_breakpoint':
+                (<DebugProtocol.StoppedEvent>this).body.description = localize('reason.description.dataBreakpoint', 'Paused on data breakpoint');
+                this.body.reason = 'data breakpoint';
+                break;
+            case 'event_listener_breakpoint':
+                (<DebugProtocol.StoppedEvent>this).body.description = localize('reason.description.eventListenerBreakpoint', 'Paused on event listener breakpoint {0}', reasonDetail);
+                this.body.reason = 'breakpoint';
+                break;
+            case 'xhr_breakpoint':
+                (<DebugProtocol.StoppedEvent>this).body.description = localize('reason.description.xhrBreakpoint', 'Paused on XHR or fetch of {0}', reasonDetail);
+                this.body.reason = 'breakpoint';
+                break;
             case 'exception':
                 const uncaught = exception && (<any>exception).uncaught; // Currently undocumented
                 if (typeof uncaught === 'undefined') {
@@ -0,0 +1,88 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { logger } from 'vscode-debugadapter';
+
+import { ITarget, ITargetPicker } from './chromeConnection';
+import { ChromeDebugSession } from './chromeDebugSession';
+import * as errors from '../errors';
+
+/**
+ * What to do when several targets match and the client can't ask the user which one to attach to: attach to the target the runtime
+ * lists first or last, attach to the most recently opened target, or fail.
+ */
+export type TargetPickerFallback = 'first' | 'newest' | 'last' | 'fail';
+
+/**
+ * The candidate targets of a pickTarget request. The client responds with the id of the target the user picked, or without an id if the user cancelled.
+ */
+export interface IPickTargetRequestArgs {
+    targets: { id: string; title: string; url: string; type: string; }[];
+}
+
+/**
+ * Asks the client which target to attach to with a pickTarget reverse request, if the client supports it
+ */
+export class ClientTargetPicker implements ITargetPicker {
+    // The user needs time to choose, so this is only a safeguard against clients that never respond
+    private static PICK_TARGET_TIMEOUT = 5 * 60 * 1000;
+
+    constructor(private readonly _session: ChromeDebugSession, private readonly _clientSupportsPickTarget: boolean, private readonly _fallback: TargetPickerFallback = 'first') { }
+
+    public async pickTarget(targets: ITarget[]): Promise<ITarget> {
+        if (targets.length === 1) {
+            return targets[0];
+        }
+
+        if (this._clientSupportsPickTarget) {
+            try {
+                const targetId = await this.requestClientToPickTarget(targets);
+                const pickedTarget = targets.find(target => target.id === targetId);
+                if (!pickedTarget) {
+                    throw errors.targetPickCancelled();
+                }
+
+                return pickedTarget;
+            } catch (e) {
+                if (e instanceof errors.ErrorWithMessage) {
+                    throw e;
+                }
+
+                logger.log(`The client couldn't pick a target, falling back to '${this._fallback}'. Error: ${e.message}`);
+            }
+        }
+
+        return this.pickFallbackTarget(targets);
+    }
+
+    private pickFallbackTarget(targets: ITarget[]): ITarget {
+        switch (this._fallback) {
+            case 'fail':
+                throw errors.multipleMatchingTargets(targets.map(target => target.url));
+            case 'newest':
+                // Chrome lists the most recently opened targets first
+                return targets[0];
+            case 'last':
+                return targets[targets.length - 1];
+            default:
+                return targets[0];
+        }
+    }
+
+    private requestClientToPickTarget(targets: ITarget[]): Promise<string | undefined> {
+        const args: IPickTargetRequestArgs = {
+            targets: targets.map(target => ({ id: target.id, title: target.title, url: target.url, type: target.type }))
+        };
+
+        return new Promise<string | undefined>((resolve, reject) => {
+            this._session.sendRequest('pickTarget', args, ClientTargetPicker.PICK_TARGET_TIMEOUT, response => {
+                if (response.success) {
+                    resolve(response.body && response.body.targetId);
+                } else {
+                    reject(new Error(response.message));
+                }
+            });
+        });
+    }
+}
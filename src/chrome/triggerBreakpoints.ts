@@ -0,0 +1,117 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { DebugProtocol } from 'vscode-debugprotocol';
+
+import { ISourceBreakpoint } from '../debugAdapterInterfaces';
+
+import * as path from 'path';
+import * as nls from 'vscode-nls';
+let localize = nls.loadMessageBundle();
+
+interface IDependentBreakpoint {
+    // The location of the trigger breakpoint, like the keys of _hitTriggerLocations
+    triggerLocation: string;
+    triggerPath: string;
+    triggerLine: number;
+}
+
+/* Rationale: A dependent breakpoint is set in the runtime like any other breakpoint, and like a hit condition breakpoint we resume
+   when it's hit while it's dormant. The trigger breakpoint is identified by its location in the client, so the dependency still
+   holds when the client sets the breakpoints of the trigger's source again, which gives them new ids.
+*/
+
+/**
+ * Breakpoints that stay dormant until another breakpoint was hit. The breakpoints are identified by their DAP ids, and their locations
+ * use the paths and lines of the client.
+ */
+export class TriggerBreakpoints {
+    private _dependentsById = new Map<number, IDependentBreakpoint>();
+    private _locationsById = new Map<number, string>();
+    private _idsByPath = new Map<string, number[]>();
+
+    // The locations of the trigger breakpoints that were hit since the target context was cleared
+    private _hitTriggerLocations = new Set<string>();
+
+    /**
+     * Called with the breakpoints of a source that the client set, and the response to the client
+     * @param clientPath The canonicalized path of the source. The paths of the triggers are canonicalized too.
+     */
+    public setBreakpoints(clientPath: string, requestedBreakpoints: ISourceBreakpoint[], responseBreakpoints: DebugProtocol.Breakpoint[]): void {
+        (this._idsByPath.get(clientPath) || []).forEach(id => {
+            this._dependentsById.delete(id);
+            this._locationsById.delete(id);
+        });
+
+        const ids: number[] = [];
+        responseBreakpoints.forEach((bp, i) => {
+            const requestedBp = requestedBreakpoints[i];
+            if (typeof bp.id !== 'number' || !requestedBp) {
+                return;
+            }
+
+            ids.push(bp.id);
+            this._locationsById.set(bp.id, locationKey(clientPath, requestedBp.line));
+            if (requestedBp.triggeredBy && requestedBp.triggeredBy.path) {
+                const triggerPath = requestedBp.triggeredBy.path;
+                this._dependentsById.set(bp.id, {
+                    triggerLocation: locationKey(triggerPath, requestedBp.triggeredBy.line),
+                    triggerPath,
+                    triggerLine: requestedBp.triggeredBy.line
+                });
+            }
+        });
+
+        this._idsByPath.set(clientPath, ids);
+    }
+
+    public isDormant(id: number): boolean {
+        const dependent = this._dependentsById.get(id);
+        return !!dependent && !this._hitTriggerLocations.has(dependent.triggerLocation);
+    }
+
+    /**
+     * Called when the runtime hit a breakpoint. Returns the ids of the dependent breakpoints that it armed.
+     */
+    public onHit(id: number): number[] {
+        const location = this._locationsById.get(id);
+        if (!location || this.isDormant(id) || this._hitTriggerLocations.has(location)) {
+            return [];
+        }
+
+        this._hitTriggerLocations.add(location);
+        return this.getDependentIds().filter(dependentId => this._dependentsById.get(dependentId).triggerLocation === location);
+    }
+
+    /**
+     * All the dependent breakpoints are dormant again. Returns their ids.
+     */
+    public reset(): number[] {
+        this._hitTriggerLocations.clear();
+        return this.getDependentIds();
+    }
+
+    /**
+     * The message of a dependent breakpoint, which tells whether its trigger was hit, or undefined for other breakpoints
+     */
+    public getMessage(id: number): string | undefined {
+        const dependent = this._dependentsById.get(id);
+        if (!dependent) {
+            return undefined;
+        }
+
+        const triggerName = `${path.basename(dependent.triggerPath)}:${dependent.triggerLine}`;
+        return this.isDormant(id) ?
+            localize('bp.triggerDormant', 'Waiting for the breakpoint at {0} to be hit', triggerName) :
+            localize('bp.triggerArmed', 'Armed by the breakpoint at {0}', triggerName);
+    }
+
+    private getDependentIds(): number[] {
+        return Array.from(this._dependentsById.keys());
+    }
+}
+
+function locationKey(clientPath: string, line: number): string {
+    return `${clientPath}:${line}`;
+}
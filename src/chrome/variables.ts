@@ -11,6 +11,7 @@ import { Protocol as Crdp } from 'devtools-protocol';
 import * as utils from '../utils';
 import { VariablesManager } from './variablesManager';
 import * as ChromeUtils from './chromeUtils';
+import { IDataBreakpointTarget } from './dataBreakpoints';
 
 export interface IVariableContainer {
     expand(variablesManager: VariablesManager, filter?: string, start?: number, count?: number): Promise<DebugProtocol.Variable[]>;
@@ -34,6 +35,10 @@ export class PropertyContainer extends BaseVariableContainer {
     public setValue(variablesManager: VariablesManager, name: string, value: string): Promise<string> {
         return variablesManager.setPropertyValue(this.objectId, name, value);
     }
+
+    public getDataBreakpointTarget(name: string): IDataBreakpointTarget {
+        return { objectId: this.objectId, name };
+    }
 }
 
 export class LoggedObjects extends BaseVariableContainer {
@@ -291,26 +296,44 @@ export function getRemoteObjectPreview_function(object: Crdp.Runtime.RemoteObjec
 }
 
 export class VariableHandles {
-    private _variableHandles = new Handles<IVariableContainer>(1);
-    private _consoleVariableHandles = new Handles<IVariableContainer>(1e5);
+    private _variableHandles: Handles<IVariableContainer>;
+
+    // The console handles are kept in a map that we own, so they can be released one by one
+    private _consoleVariables = new Map<number, IVariableContainer>();
+    private _nextConsoleHandle: number;
+
+    /**
+     * @param _handleOffset Added to every handle, so that the handles of several instances don't overlap
+     */
+    constructor(private readonly _handleOffset = 0) {
+        this._variableHandles = new Handles<IVariableContainer>(this._handleOffset + 1);
+        this._nextConsoleHandle = this._handleOffset + 1e5;
+    }
 
     public onPaused(): void {
         // Only reset the variableHandles, the console vars are still visible
-        this._variableHandles.reset();
+        this._variableHandles = new Handles<IVariableContainer>(this._handleOffset + 1);
     }
 
     public create(value: IVariableContainer, context: VariableContext = 'variables'): number {
-        return this.getHandles(context).create(value);
+        if (context !== 'repl') {
+            return this._variableHandles.create(value);
+        }
+
+        const handle = this._nextConsoleHandle++;
+        this._consoleVariables.set(handle, value);
+        return handle;
     }
 
     public get(handle: number): IVariableContainer {
-        return this._variableHandles.get(handle) || this._consoleVariableHandles.get(handle);
+        return this._variableHandles.get(handle) || this._consoleVariables.get(handle);
     }
 
-    private getHandles(context: VariableContext): Handles<IVariableContainer> {
-        return context === 'repl' ?
-            this._consoleVariableHandles :
-            this._variableHandles;
+    /**
+     * Forget console handles that can't be shown anymore
+     */
+    public release(handles: number[]): void {
+        handles.forEach(handle => this._consoleVariables.delete(handle));
     }
 }
 
@@ -14,6 +14,7 @@ import * as errors from '../errors';
 import * as utils from '../utils';
 import { VariableContext } from './chromeDebugAdapter';
 import { ChromeConnection } from './chromeConnection';
+import { IDataBreakpointTarget } from './dataBreakpoints';
 
 /**
  * A container for managing get/set variable calls
@@ -23,8 +24,8 @@ export class VariablesManager {
     private _variableHandles: variables.VariableHandles;
     private get chrome() { return this._chromeConnection.api; }
 
-    constructor(private readonly _chromeConnection: ChromeConnection) {
-        this._variableHandles = new variables.VariableHandles();
+    constructor(private readonly _chromeConnection: Pick<ChromeConnection, 'api'>, handleOffset?: number) {
+        this._variableHandles = new variables.VariableHandles(handleOffset);
     }
 
     public getVariables(args: DebugProtocol.VariablesArguments): Promise<IVariablesResponseBody | undefined> {
@@ -103,6 +104,25 @@ export class VariablesManager {
         return this._variableHandles.create(value, context);
     }
 
+    /**
+     * Release 'repl' handles, whose variables can't be requested anymore
+     */
+    public releaseHandles(handles: number[]): void {
+        this._variableHandles.release(handles);
+    }
+
+    /**
+     * The property that a data breakpoint would be set on, or undefined if the variable isn't a property of an object
+     */
+    public getDataBreakpointTarget(variablesReference: number, name: string): IDataBreakpointTarget | undefined {
+        const handle = this._variableHandles.get(variablesReference);
+        if (!(handle instanceof variables.PropertyContainer) || name.startsWith('[[')) {
+            return undefined;
+        }
+
+        return handle.getDataBreakpointTarget(name);
+    }
+
     public setPropertyValue(objectId: string, propName: string, value: string): Promise<string> {
         const setPropertyValueFn = `function() { return this["${propName}"] = ${value}; }`;
         return this.chrome.Runtime.callFunctionOn({
@@ -0,0 +1,74 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { logger } from 'vscode-debugadapter';
+import { Protocol as Crdp } from 'devtools-protocol';
+
+import { ChromeConnection } from './chromeConnection';
+import { RuntimeCapabilities } from './runtimeCapabilities';
+import * as errors from '../errors';
+
+/**
+ * Pauses when the target sends an XHR or fetch request whose url contains one of the given strings. The breakpoints are set on the main target.
+ */
+export class XHRBreakpoints {
+    private _urls: string[] = [];
+
+    private get chrome() { return this._chromeConnection.api; }
+
+    constructor(
+        private readonly _chromeConnection: ChromeConnection,
+        private readonly _runtimeCapabilities: RuntimeCapabilities
+    ) { }
+
+    /**
+     * Replace all the XHR breakpoints. An empty string pauses on every request.
+     */
+    public async setXHRBreakpoints(urls: string[]): Promise<void> {
+        if (!this._runtimeCapabilities.isSupported('xhrBreakpoints')) {
+            throw errors.xhrBreakpointsNotSupported();
+        }
+
+        const removedUrls = this._urls.filter(url => urls.indexOf(url) < 0);
+        const addedUrls = Array.from(new Set(urls)).filter(url => this._urls.indexOf(url) < 0);
+
+        // Keep the urls of the breakpoints that the runtime has, so a request that fails halfway can be sent again
+        for (const url of removedUrls) {
+            await this.chrome.DOMDebugger.removeXHRBreakpoint({ url });
+            this._urls = this._urls.filter(setUrl => setUrl !== url);
+        }
+
+        for (const url of addedUrls) {
+            await this.chrome.DOMDebugger.setXHRBreakpoint({ url });
+            this._urls.push(url);
+        }
+    }
+
+    /**
+     * Set the breakpoints again after reconnecting to the target
+     */
+    public async resendBreakpoints(): Promise<void> {
+        for (const url of this._urls) {
+            try {
+                await this.chrome.DOMDebugger.setXHRBreakpoint({ url });
+            } catch (e) {
+                logger.log(`Failed to set the XHR breakpoint ${url} again: ${e.message}`);
+            }
+        }
+    }
+
+    /**
+     * The url of the request that caused this pause, or undefined if the pause wasn't caused by an XHR breakpoint
+     */
+    public getPausedRequestUrl(notification: Crdp.Debugger.PausedEvent): string | undefined {
+        if (notification.reason === 'XHR' && notification.data) {
+            return notification.data.url;
+        } else if (notification.reason === 'ambiguous' && notification.data && Array.isArray(notification.data.reasons)) {
+            const xhrReason = notification.data.reasons.find(r => r.reason === 'XHR');
+            return xhrReason && xhrReason.auxData && xhrReason.auxData.url;
+        }
+
+        return undefined;
+    }
+}
@@ -10,7 +10,9 @@ import { DebugProtocol } from 'vscode-debugprotocol';
 import { Protocol as Crdp } from 'devtools-protocol';
 import { ITelemetryPropertyCollector } from './telemetry';
 import { IStringDictionary } from './utils';
-import { ITargetFilter } from './chrome/chromeConnection';
+import { ITargetFilter, IWaitForTargetOptions } from './chrome/chromeConnection';
+import { TargetPickerFallback } from './chrome/targetPicker';
+import { IExtraCRDPChannel } from './chrome/crdpMultiplexing/webSocketToLikeSocketProxy';
 
 export type ISourceMapPathOverrides = IStringDictionary<string>;
 export type IPathMapping = IStringDictionary<string>;
@@ -37,23 +39,87 @@ export interface ICommonRequestArgs {
     skipFileRegExps?: string[]; // a supplemental array of library code regex patterns
     timeout?: number;
     showAsyncStacks?: boolean;
+
+    /**
+     * Step through async code: step in follows setTimeout, promise callbacks and other async calls into their callback, and step over
+     * and step out at the end of a callback continue in the next callback of the promise chain or the awaiting function. Defaults to true.
+     */
+    asyncStepping?: boolean;
     targetFilter?: ITargetFilter;
     enableSourceMapCaching?: boolean;
 
     /** Private undocumented property to multiplex the CRDP connection into an additional channel */
     extraCRDPChannelPort?: number;
 
+    /**
+     * Additional channels of the CRDP connection, each one offered on its own websocket port, so several tools (a profiler UI, a DevTools frontend, etc...)
+     * can use the same target while it's being debugged. At most 9 extra channels are supported.
+     */
+    extraCRDPChannels?: IExtraCRDPChannel[];
+
     /** Private undocumented property for enabling break on load */
     breakOnLoadStrategy?: BreakOnLoadStrategy;
 
     /** Inserted by chrome-debug when debugging from the ui side of a remote window */
     remoteAuthority?: string;
 
+    /** Attach to the workers and iframes of the target, and show each of them as a separate thread */
+    autoAttachToChildTargets?: boolean;
+
+    /** Attach to the popups and tabs that the target opens (e.g. with window.open), and show each of them as a separate thread */
+    autoAttachToChildPages?: boolean;
+
+    /** When the connection to the target is lost, find the target again and reconnect to it instead of ending the session */
+    reconnectOnDisconnect?: boolean;
+
+    /** Write all the CRDP messages to this file, so the session can be replayed later with ReplayTargetDiscovery */
+    recordCrdpTrafficTo?: string;
+
+    /** How many messages each logpoint shows in the debug console per second. The rest are counted and summarized. Defaults to 100, 0 for no limit. */
+    logpointRateLimit?: number;
+
+    /** Also write the messages of the logpoints to this file as JSON lines, with their timestamp, breakpoint id, location and values */
+    logpointOutputFile?: string;
+
+    /** Keep polling for a target that matches the url and targetFilter until one appears, instead of failing when there is none yet */
+    waitForTarget?: boolean | IWaitForTargetOptions;
+
+    /** Pause when the target sends an XHR or fetch request whose url contains one of these strings. An empty string pauses on every request. */
+    xhrBreakpoints?: string[];
+
+    /** Which target to attach to when several match and the client doesn't support the pickTarget request: 'first', 'newest' (the most recently opened), 'last' or 'fail'. Defaults to 'first'. */
+    targetPickerFallback?: TargetPickerFallback;
+
     _suppressConsoleOutput?: boolean;
 }
 
 export interface IInitializeRequestArgs extends DebugProtocol.InitializeRequestArguments {
     supportsMapURLToFilePathRequest?: boolean;
+    supportsPickTargetRequest?: boolean;
+}
+
+/**
+ * The exception filter options and conditions of newer versions of the protocol
+ */
+export interface IExceptionBreakpointsFilter extends DebugProtocol.ExceptionBreakpointsFilter {
+    supportsCondition?: boolean;
+    conditionDescription?: string;
+}
+
+export interface ICapabilities extends DebugProtocol.Capabilities {
+    exceptionBreakpointFilters?: IExceptionBreakpointsFilter[];
+    supportsExceptionFilterOptions?: boolean;
+}
+
+export interface IExceptionFilterOptions {
+    filterId: string;
+
+    /** An expression which must be true to stop on the exception. The thrown value is available as `error`. */
+    condition?: string;
+}
+
+export interface ISetExceptionBreakpointsArgs extends DebugProtocol.SetExceptionBreakpointsArguments {
+    filterOptions?: IExceptionFilterOptions[];
 }
 
 export interface IRestartRequestArgs {
@@ -81,8 +147,137 @@ export interface IToggleSkipFileStatusArgs {
     sourceReference?: number;
 }
 
+export interface IEventListenerBreakpointsResponseBody {
+    categories: {
+        id: string;
+        title: string;
+        breakpoints: { id: string, title: string, enabled: boolean }[];
+    }[];
+}
+
+export interface ISetEventListenerBreakpointsArgs {
+    /** The ids of breakpoints, or of categories to enable or disable all their breakpoints */
+    ids: string[];
+    enabled: boolean;
+}
+
+export interface ISetXHRBreakpointsArgs {
+    urls: string[];
+}
+
+export interface IRunToLocationArgs {
+    source: DebugProtocol.Source;
+    line: number;
+    column?: number;
+
+    /** 'current' only stops at the location in the current frame, 'any' also stops at it in a function called from here. 'any' by default */
+    targetCallFrames?: 'current' | 'any';
+}
+
+export interface IBreakpointDiagnosticsArgs {
+    /** The path of a source, as the client sets breakpoints on it */
+    path: string;
+}
+
+export interface IBreakpointDiagnosticsResponseBody {
+    /** The path after resolving it like the path of a setBreakpoints request */
+    clientPath: string;
+
+    /** The path of the generated script that the source maps map the client path to, or null if no source map or script has it */
+    generatedPath: string | null;
+
+    /** The path or url that the path transformer computed for the generated script, which is used to set the breakpoints */
+    targetPath: string | null;
+
+    /** The regex that the breakpoints are set with by url */
+    urlRegex: string | null;
+
+    /** The loaded scripts whose url is the target path, or whose source map has the client path as a source */
+    loadedScripts: {
+        scriptId: string;
+        url: string;
+        sourceMapURL?: string;
+        referencedBy: 'url' | 'sourceMap';
+    }[];
+
+    /** The locations in the generated script that the breakpoints were set on, and where the runtime bound them */
+    breakpoints: {
+        breakpointId: string;
+        lineNumber: number;
+        columnNumber?: number;
+        condition?: string;
+        resolvedLocations: { scriptId: string, lineNumber: number, columnNumber?: number }[];
+    }[];
+
+    /** Whether the breakpoints are waiting for a script that has the source to be loaded */
+    pendingOnScriptLoad: boolean;
+
+    /** The path that the pending breakpoints were tried with, if any */
+    pendingSetWithPath?: string;
+}
+
+export interface IBreakpointStatistics {
+    /** The id of the breakpoint, as in the setBreakpoints and setFunctionBreakpoints responses */
+    id: number;
+
+    hitCount: number;
+
+    /** The times of the first and last hits, in milliseconds since the epoch */
+    firstHitTime: number;
+    lastHitTime: number;
+
+    /** The most recent hits, most recent first. The stack has a summary of the top frames, like `render (app.ts:12:5)` */
+    recentHits: {
+        time: number;
+        stack: string[];
+    }[];
+}
+
+export interface ISnapshot {
+    id: number;
+
+    /** The id of the snapshot point, as in the setBreakpoints response */
+    breakpointId: number;
+
+    /** When the snapshot was taken, in milliseconds since the epoch */
+    time: number;
+
+    /** The stack when the snapshot was taken, at the authored locations */
+    stackFrames: {
+        name: string;
+        source?: DebugProtocol.Source;
+        line: number;
+        column: number;
+    }[];
+
+    /** Expand with a variables request to get `this` and the local variables of the top frame, as they were when the snapshot was taken */
+    variablesReference: number;
+}
+
+export interface ISnapshotsResponseBody {
+    /** The most recent snapshots, oldest first */
+    snapshots: ISnapshot[];
+}
+
+export interface IBreakpointStatisticsResponseBody {
+    /** The breakpoints that were hit since the debug session started */
+    breakpoints: IBreakpointStatistics[];
+}
+
+export interface ISourceBreakpoint extends DebugProtocol.SourceBreakpoint {
+    /** The breakpoint stays dormant until the breakpoint at this location was hit. The line is in the client's line numbering. */
+    triggeredBy?: {
+        path: string;
+        line: number;
+    };
+
+    /** When hit, capture the stack and the local variables and resume, instead of pausing. The snapshots are returned by the snapshots request. */
+    snapshot?: boolean;
+}
+
 export interface ISetBreakpointsArgs extends DebugProtocol.SetBreakpointsArguments {
     authoredPath?: string;
+    breakpoints?: ISourceBreakpoint[];
 }
 
 export type ISetBreakpointsResponseBody = DebugProtocol.SetBreakpointsResponse['body'];
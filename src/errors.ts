@@ -168,4 +168,42 @@ export function activePortFileContentsInvalid(dataDirPath: string, dataDirConten
         variables: { dataDirPath, dataDirContents },
         sendTelemetry: true
     });
-}
\ No newline at end of file
+}
+
+export function multipleMatchingTargets(targetUrls: string[]) {
+    return new ErrorWithMessage({
+        id: 2035,
+        format: localize('attach.multipleMatchingTargets', 'Found more than one target that matches, set the url or targetFilter so only one matches. Matching pages: {targetUrls}'),
+        variables: { targetUrls: JSON.stringify(targetUrls) }
+    });
+}
+
+export function targetPickCancelled() {
+    return new ErrorWithMessage({
+        id: 2036,
+        format: localize('attach.targetPickCancelled', 'No target was picked to attach to')
+    });
+}
+
+export function xhrBreakpointsNotSupported() {
+    return new ErrorWithMessage({
+        id: 2037,
+        format: localize('xhrBreakpoints.notSupported', 'The target does not support XHR breakpoints')
+    });
+}
+
+export function runToLocationScriptNotFound(path: string) {
+    return new ErrorWithMessage({
+        id: 2038,
+        format: localize('runToLocation.scriptNotFound', 'Can\'t run to a location in {path}, because its script has not been loaded'),
+        variables: { path }
+    });
+}
+
+export function tooManyExtraCRDPChannels(maxChannels: number) {
+    return new ErrorWithMessage({
+        id: 2039,
+        format: localize('extraCRDPChannels.tooMany', 'At most {maxChannels} extra CRDP channels are supported'),
+        variables: { maxChannels: maxChannels + '' }
+    });
+}
@@ -9,6 +9,9 @@ import * as chromeConnection from './chrome/chromeConnection';
 import { ChromeDebugAdapter, LoadedSourceEventReason, IOnPausedResult } from './chrome/chromeDebugAdapter';
 import { ChromeDebugSession, IChromeDebugSessionOpts } from './chrome/chromeDebugSession';
 import * as chromeTargetDiscoveryStrategy from './chrome/chromeTargetDiscoveryStrategy';
+import * as crdpReplay from './chrome/crdpRecording/crdpReplay';
+import * as pipeSocket from './chrome/pipeSocket';
+import * as runtimeCapabilities from './chrome/runtimeCapabilities';
 import * as chromeUtils from './chrome/chromeUtils';
 import * as stoppedEvent from './chrome/stoppedEvent';
 import { InternalSourceBreakpoint } from './chrome/internalSourceBreakpoint';
@@ -39,6 +42,9 @@ export {
     IOnPausedResult,
     IChromeDebugSessionOpts,
     chromeTargetDiscoveryStrategy,
+    crdpReplay,
+    pipeSocket,
+    runtimeCapabilities,
     chromeUtils,
     logger,
     stoppedEvent,
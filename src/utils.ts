@@ -497,6 +497,14 @@ export class ReverseHandles<T> extends Handles<T> {
         (<any>this)._handleMap.set(handle, value);
         this._reverseMap.set(value, handle);
     }
+
+    public delete(handle: number): void {
+        const value = this.get(handle);
+        (<any>this)._handleMap.delete(handle);
+        if (this._reverseMap.get(value) === handle) {
+            this._reverseMap.delete(value);
+        }
+    }
 }
 
 /**
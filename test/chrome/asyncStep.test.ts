@@ -0,0 +1,92 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { Protocol as Crdp } from 'devtools-protocol';
+import * as assert from 'assert';
+
+import { AsyncStepper, StepRequest } from '../../src/chrome/asyncStep';
+
+suite('AsyncStepper', () => {
+    const CALLBACK_LOCATION: Crdp.Debugger.Location = { scriptId: '1', lineNumber: 4, columnNumber: 10 };
+    const CALLER_LOCATION: Crdp.Debugger.Location = { scriptId: '1', lineNumber: 20, columnNumber: 0 };
+    const ASYNC_PARENT: Crdp.Runtime.StackTrace = { description: 'Promise.then', callFrames: [] };
+
+    let asyncStepper: AsyncStepper;
+
+    setup(() => {
+        asyncStepper = new AsyncStepper(/*enabled=*/true);
+    });
+
+    // A pause in the callback, which the runtime called from a promise job when there is no caller
+    function paused(options: { hasCaller?: boolean, atReturn?: boolean, asyncParent?: boolean, hitBreakpoints?: string[] } = {}): Crdp.Debugger.PausedEvent {
+        const callFrames = [<Crdp.Debugger.CallFrame>{
+            functionLocation: CALLBACK_LOCATION,
+            location: { ...CALLBACK_LOCATION, lineNumber: 5 },
+            returnValue: options.atReturn ? { type: 'undefined' } : undefined
+        }];
+        if (options.hasCaller) {
+            callFrames.push(<Crdp.Debugger.CallFrame>{ functionLocation: CALLER_LOCATION, location: CALLER_LOCATION });
+        }
+
+        return <Crdp.Debugger.PausedEvent>{
+            reason: 'other',
+            callFrames,
+            hitBreakpoints: options.hitBreakpoints,
+            asyncStackTrace: options.asyncParent === false ? undefined : ASYNC_PARENT
+        };
+    }
+
+    // Record the request that the step sends
+    async function requestOf(step: StepRequest | undefined): Promise<string | undefined> {
+        if (!step) {
+            return undefined;
+        }
+
+        let request: string;
+        const api = <Crdp.ProtocolApi><Partial<Crdp.ProtocolApi>>{
+            Debugger: <Crdp.DebuggerApi><Partial<Crdp.DebuggerApi>>{
+                stepOver: () => { request = 'stepOver'; return Promise.resolve(); },
+                stepOut: () => { request = 'stepOut'; return Promise.resolve(); },
+                stepInto: (params: Crdp.Debugger.StepIntoRequest) => { request = params.breakOnAsyncCall ? 'stepIntoAsyncCall' : 'stepInto'; return Promise.resolve(); }
+            }
+        };
+        await step(api);
+        return request;
+    }
+
+    test('steps over normally inside of the frame', async () => {
+        assert.equal(await requestOf(asyncStepper.next(paused())), 'stepOver');
+    });
+
+    test('steps over the return of an async task into the async call that it schedules', async () => {
+        assert.equal(await requestOf(asyncStepper.next(paused({ atReturn: true }))), 'stepIntoAsyncCall');
+    });
+
+    test('steps over and out normally when the frame has a caller or no async parent', async () => {
+        assert.equal(await requestOf(asyncStepper.next(paused({ atReturn: true, hasCaller: true }))), 'stepOver');
+        assert.equal(await requestOf(asyncStepper.stepOut(paused({ hasCaller: true }))), 'stepOut');
+        assert.equal(await requestOf(asyncStepper.stepOut(paused({ asyncParent: false }))), 'stepOut');
+    });
+
+    test('steps out of an async task by stepping over to its return, and then into the async call that it schedules', async () => {
+        assert.equal(await requestOf(asyncStepper.stepOut(paused())), 'stepOver');
+        assert.equal(await requestOf(asyncStepper.onPaused(paused())), 'stepOver');
+        assert.equal(await requestOf(asyncStepper.onPaused(paused({ atReturn: true }))), 'stepIntoAsyncCall');
+
+        // The pause in the async call is shown
+        assert.equal(asyncStepper.onPaused(paused()), undefined);
+    });
+
+    test('stops stepping out when a breakpoint is hit on the way', async () => {
+        await requestOf(asyncStepper.stepOut(paused()));
+        assert.equal(asyncStepper.onPaused(paused({ hitBreakpoints: ['bp1'] })), undefined);
+        assert.equal(asyncStepper.onPaused(paused()), undefined);
+    });
+
+    test('does not change the steps when async stepping is off', async () => {
+        asyncStepper = new AsyncStepper(/*enabled=*/false);
+        assert.equal(await requestOf(asyncStepper.next(paused({ atReturn: true }))), 'stepOver');
+        assert.equal(await requestOf(asyncStepper.stepOut(paused())), 'stepOut');
+    });
+});
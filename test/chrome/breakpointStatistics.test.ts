@@ -0,0 +1,43 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import * as assert from 'assert';
+
+import { BreakpointStatistics } from '../../src/chrome/breakpointStatistics';
+
+suite('BreakpointStatistics', () => {
+    let statistics: BreakpointStatistics;
+
+    setup(() => {
+        statistics = new BreakpointStatistics();
+    });
+
+    test('records the hit count and the first and last hit times', () => {
+        statistics.recordHit(2, ['b (app.js:3:1)'], 100);
+        statistics.recordHit(1, ['a (app.js:1:1)'], 200);
+        statistics.recordHit(2, ['b (app.js:3:1)'], 300);
+
+        assert.deepEqual(statistics.getStatistics().map(bp => ({ id: bp.id, hitCount: bp.hitCount, firstHitTime: bp.firstHitTime, lastHitTime: bp.lastHitTime })), [
+            { id: 1, hitCount: 1, firstHitTime: 200, lastHitTime: 200 },
+            { id: 2, hitCount: 2, firstHitTime: 100, lastHitTime: 300 }
+        ]);
+    });
+
+    test('keeps the most recent hits', () => {
+        for (let i = 0; i < 15; i++) {
+            statistics.recordHit(1, [`f (app.js:${i}:1)`], i);
+        }
+
+        const recentHits = statistics.getStatistics()[0].recentHits;
+        assert.equal(recentHits.length, 10);
+        assert.deepEqual(recentHits[0], { time: 14, stack: ['f (app.js:14:1)'] });
+        assert.equal(recentHits[9].time, 5);
+    });
+
+    test('has no message for a breakpoint that was not hit', () => {
+        statistics.recordHit(1, [], 100);
+
+        assert.equal(statistics.getMessage(2), undefined);
+    });
+});
@@ -0,0 +1,239 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { Protocol as Crdp } from 'devtools-protocol';
+import * as assert from 'assert';
+
+import { ChildTargets } from '../../src/chrome/childTargets';
+
+interface IEventHandlers {
+    [eventName: string]: (params: any) => any;
+}
+
+suite('ChildTargets', () => {
+    suite('attachToChildPages without the browser target', () => {
+        let targetCreatedHandler: (params: Crdp.Target.TargetCreatedEvent) => void;
+        let attachedTargetIds: string[];
+        let childTargets: ChildTargets;
+
+        setup(async () => {
+            attachedTargetIds = [];
+            const api = {
+                Target: {
+                    on: (eventName: string, handler: any) => {
+                        if (eventName === 'targetCreated') {
+                            targetCreatedHandler = handler;
+                        }
+                    },
+                    attachToBrowserTarget: () => Promise.reject(new Error(`'Target.attachToBrowserTarget' wasn't found`)),
+                    setDiscoverTargets: () => Promise.resolve(),
+                    attachToTarget: (params: Crdp.Target.AttachToTargetRequest) => {
+                        attachedTargetIds.push(params.targetId);
+                        return Promise.resolve({ sessionId: 'session' + params.targetId });
+                    }
+                }
+            };
+
+            const chromeConnection = <any>{ api, attachedTarget: { id: 'mainPage' } };
+            childTargets = new ChildTargets(undefined, chromeConnection, undefined, undefined);
+            await childTargets.enable({ asyncCallStackDepth: 0, suppressConsoleOutput: false, asyncStepping: false, attachToChildTargets: false, attachToChildPages: true });
+        });
+
+        function pageCreated(targetId: string, openerId?: string): void {
+            targetCreatedHandler({ targetInfo: { targetId, openerId, type: 'page', title: '', url: 'http://localhost/' + targetId, attached: false } });
+        }
+
+        test('attaches to the pages opened by the main target', () => {
+            pageCreated('popup', 'mainPage');
+            assert.deepEqual(attachedTargetIds, ['popup']);
+        });
+
+        test('ignores pages that the main target did not open', () => {
+            pageCreated('unrelatedTab');
+            pageCreated('unrelatedPopup', 'unrelatedTab');
+            assert.deepEqual(attachedTargetIds, []);
+        });
+    });
+
+    suite('attachToChildPages through the browser target', () => {
+        let browserEventHandlers: IEventHandlers;
+        let requests: string[];
+        let closedSessionIds: string[];
+        let childTargets: ChildTargets;
+
+        setup(async () => {
+            browserEventHandlers = {};
+            requests = [];
+            closedSessionIds = [];
+
+            const request = (name: string) => (params?: any) => {
+                requests.push(params && params.sessionId ? `${name} ${params.sessionId}` : name);
+                return Promise.resolve({});
+            };
+            const api = { Target: { on: () => { }, attachToBrowserTarget: () => Promise.resolve({ sessionId: 'browser' }) } };
+            const browserApi = {
+                Target: {
+                    on: (eventName: string, handler: any) => browserEventHandlers[`Target.${eventName}`] = handler,
+                    setAutoAttach: (params: Crdp.Target.SetAutoAttachRequest) => {
+                        requests.push(`setAutoAttach waitForDebuggerOnStart=${params.waitForDebuggerOnStart}`);
+                        return Promise.resolve();
+                    },
+                    detachFromTarget: request('detachFromTarget')
+                }
+            };
+            const pageApi = {
+                Debugger: { on: () => { }, enable: request('enable'), setAsyncCallStackDepth: request('setAsyncCallStackDepth') },
+                Runtime: { on: () => { }, enable: request('enable'), runIfWaitingForDebugger: request('runIfWaitingForDebugger') }
+            };
+
+            const chromeConnection = <any>{
+                api,
+                attachedTarget: { id: 'mainPage' },
+                getSessionApi: (sessionId: string) => sessionId === 'browser' ? browserApi : pageApi,
+                closeSessionApi: (sessionId: string) => closedSessionIds.push(sessionId)
+            };
+            const adapter = <any>{ session: { sendEvent: () => { } } };
+            const breakpoints = <any>{ attachChildTarget: request('attachChildTarget') };
+            const scriptSkipper = <any>{ applyBlackboxPatterns: () => Promise.resolve() };
+
+            childTargets = new ChildTargets(adapter, chromeConnection, breakpoints, scriptSkipper);
+            await childTargets.enable({ asyncCallStackDepth: 0, suppressConsoleOutput: false, asyncStepping: false, attachToChildTargets: false, attachToChildPages: true });
+        });
+
+        function pageAttached(targetId: string, openerId?: string): Promise<void> {
+            return browserEventHandlers['Target.attachedToTarget']({
+                sessionId: 'session' + targetId,
+                targetInfo: { targetId, openerId, type: 'page', title: '', url: 'http://localhost/' + targetId, attached: true },
+                waitingForDebugger: true
+            });
+        }
+
+        test('pauses the new pages when they start', () => {
+            assert.deepEqual(requests, ['setAutoAttach waitForDebuggerOnStart=true']);
+        });
+
+        test('runs a page opened by the main target after its breakpoints are set', async () => {
+            requests = [];
+            await pageAttached('popup', 'mainPage');
+
+            assert.deepEqual(childTargets.targets.map(target => target.targetInfo.targetId), ['popup']);
+            assert.deepEqual(requests.slice(-2), ['attachChildTarget', 'runIfWaitingForDebugger']);
+        });
+
+        test('runs and detaches from the pages that the main target did not open', async () => {
+            requests = [];
+            await pageAttached('unrelatedTab');
+
+            assert.equal(childTargets.targets.length, 0);
+            assert.deepEqual(requests, ['runIfWaitingForDebugger', 'detachFromTarget sessionunrelatedTab']);
+            assert.deepEqual(closedSessionIds, ['sessionunrelatedTab']);
+        });
+    });
+
+    suite('child target pauses', () => {
+        const SESSION_ID = 'worker1';
+
+        let targetEventHandlers: IEventHandlers;
+        let sessionEventHandlers: IEventHandlers;
+        let requests: string[];
+        let sentEvents: string[];
+        let closedSessionIds: string[];
+        let shouldStopOnException: boolean;
+        let shouldSmartStep: boolean;
+        let childTargets: ChildTargets;
+
+        setup(async () => {
+            targetEventHandlers = {};
+            sessionEventHandlers = {};
+            requests = [];
+            sentEvents = [];
+            closedSessionIds = [];
+
+            const request = (name: string) => () => {
+                requests.push(name);
+                return Promise.resolve({});
+            };
+            const on = (handlers: IEventHandlers, domain: string) => (eventName: string, handler: any) => handlers[`${domain}.${eventName}`] = handler;
+            const api = { Target: { on: on(targetEventHandlers, 'Target') } };
+            const sessionApi = {
+                Debugger: { on: on(sessionEventHandlers, 'Debugger'), enable: request('enable'), setAsyncCallStackDepth: request('setAsyncCallStackDepth'),
+                    resume: request('resume'), stepInto: request('stepInto') },
+                Runtime: { on: on(sessionEventHandlers, 'Runtime'), enable: request('enable'), runIfWaitingForDebugger: request('runIfWaitingForDebugger') }
+            };
+
+            const chromeConnection = <any>{
+                api,
+                getSessionApi: () => sessionApi,
+                closeSessionApi: (sessionId: string) => closedSessionIds.push(sessionId)
+            };
+            const adapter = <any>{
+                session: { sendEvent: (event: any) => sentEvents.push(event.event) },
+                shouldStopOnException: () => Promise.resolve(shouldStopOnException),
+                shouldSmartStepCallFrame: () => Promise.resolve(shouldSmartStep)
+            };
+            const breakpoints = <any>{ attachChildTarget: () => Promise.resolve(), detachChildTarget: () => { } };
+            const scriptSkipper = <any>{ applyBlackboxPatterns: () => Promise.resolve() };
+
+            childTargets = new ChildTargets(adapter, chromeConnection, breakpoints, scriptSkipper);
+            await childTargets.enable({ asyncCallStackDepth: 0, suppressConsoleOutput: false, asyncStepping: false, attachToChildTargets: false, attachToChildPages: false });
+            await targetEventHandlers['Target.attachedToTarget']({
+                sessionId: SESSION_ID,
+                targetInfo: { targetId: 'worker1', type: 'worker', title: '', url: 'http://localhost/worker.js', attached: true },
+                waitingForDebugger: false
+            });
+            requests = [];
+            sentEvents = [];
+        });
+
+        async function pause(params: Partial<Crdp.Debugger.PausedEvent>): Promise<void> {
+            await sessionEventHandlers['Debugger.paused']({ callFrames: [{}], ...params });
+        }
+
+        test('resumes from the exceptions that the exception breakpoints skip', async () => {
+            shouldStopOnException = false;
+            await pause({ reason: 'exception', data: { type: 'object' } });
+
+            assert.deepEqual(requests, ['resume']);
+            assert.deepEqual(sentEvents, []);
+        });
+
+        test('stops on the exceptions that the exception breakpoints stop on', async () => {
+            shouldStopOnException = true;
+            await pause({ reason: 'exception', data: { type: 'object' } });
+
+            assert.deepEqual(requests, []);
+            assert.deepEqual(sentEvents, ['stopped']);
+        });
+
+        test('logs the requests that fail while processing a pause, instead of rejecting', async () => {
+            childTargets.targets[0].api.Debugger.pauseOnAsyncCall = () => Promise.reject(new Error('The target was detached'));
+
+            await pause({ reason: 'other', asyncCallStackTraceId: { id: '1' } });
+            assert.deepEqual(requests, []);
+            assert.deepEqual(sentEvents, []);
+        });
+
+        test('steps through the code that smartStep skips', async () => {
+            const target = childTargets.targets[0];
+            await childTargets.step(target, api => api.Debugger.stepInto({}));
+            requests = [];
+
+            shouldSmartStep = true;
+            await pause({ reason: 'other' });
+            assert.deepEqual(requests, ['stepInto']);
+            assert.deepEqual(sentEvents, []);
+
+            shouldSmartStep = false;
+            await pause({ reason: 'other' });
+            assert.deepEqual(sentEvents, ['stopped']);
+        });
+
+        test('closes the session api when the target is detached', () => {
+            targetEventHandlers['Target.detachedFromTarget']({ sessionId: SESSION_ID });
+
+            assert.deepEqual(closedSessionIds, [SESSION_ID]);
+            assert.equal(childTargets.targets.length, 0);
+        });
+    });
+});
@@ -0,0 +1,122 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as net from 'net';
+import * as WebSocket from 'ws';
+
+import { ChromeConnection } from '../../src/chrome/chromeConnection';
+
+suite('ChromeConnection', () => {
+    let targetPort: number;
+    let targetServer: WebSocket.Server;
+    let targetConnections: WebSocket[];
+    let connection: ChromeConnection;
+    let clients: WebSocket[];
+
+    setup(async () => {
+        targetConnections = [];
+        clients = [];
+        targetPort = await getFreePort();
+        targetServer = await startTargetServer(targetPort);
+    });
+
+    teardown(async () => {
+        clients.forEach(client => client.terminate());
+        if (connection && connection.isAttached) {
+            connection.close();
+        }
+
+        await new Promise(resolve => targetServer.close(resolve));
+    });
+
+    function getFreePort(): Promise<number> {
+        return new Promise<number>(resolve => {
+            const server = net.createServer();
+            server.listen(0, () => {
+                const port = server.address().port;
+                server.close(() => resolve(port));
+            });
+        });
+    }
+
+    /**
+     * A target that answers every request with an empty result
+     */
+    function startTargetServer(port: number): Promise<WebSocket.Server> {
+        return new Promise<WebSocket.Server>(resolve => {
+            const server = new WebSocket.Server({ port }, () => resolve(server));
+            server.on('connection', targetConnection => {
+                targetConnections.push(targetConnection);
+                targetConnection.on('message', data => targetConnection.send(JSON.stringify({ id: JSON.parse(data.toString()).id, result: {} })));
+            });
+        });
+    }
+
+    async function connectToChannel(port: number): Promise<WebSocket> {
+        // The channel's server starts listening asynchronously
+        for (let attempt = 0; ; attempt++) {
+            const client = new WebSocket(`ws://localhost:${port}`);
+            try {
+                await new Promise((resolve, reject) => {
+                    client.once('open', resolve);
+                    client.once('error', reject);
+                });
+                clients.push(client);
+                return client;
+            } catch (e) {
+                if (attempt >= 20) {
+                    throw e;
+                }
+
+                await new Promise(resolve => setTimeout(resolve, 50));
+            }
+        }
+    }
+
+    function sendRequest(client: WebSocket, id: number): Promise<any> {
+        const response = new Promise(resolve => client.once('message', data => resolve(JSON.parse(data.toString()))));
+        client.send(JSON.stringify({ id, method: 'Runtime.evaluate', params: { expression: '1' } }));
+        return response;
+    }
+
+    function targetUrl(): string {
+        return `ws://localhost:${targetPort}`;
+    }
+
+    test('offers the extra CRDP channels through their ports', async () => {
+        const [channelPort, otherChannelPort] = [await getFreePort(), await getFreePort()];
+        connection = new ChromeConnection();
+        connection.setExtraCRDPChannels([{ name: 'profiler', port: channelPort }, { name: 'console', port: otherChannelPort }]);
+        connection.attachToWebsocketUrl(targetUrl());
+
+        assert.deepEqual(await sendRequest(await connectToChannel(channelPort), 5), { id: 5, result: {} });
+        assert.deepEqual(await sendRequest(await connectToChannel(otherChannelPort), 5), { id: 5, result: {} });
+    });
+
+    test('keeps offering the extra CRDP channels on the same ports after reconnecting', async () => {
+        const channelPort = await getFreePort();
+        connection = new ChromeConnection();
+        connection.setExtraCRDPChannels([{ name: 'profiler', port: channelPort }]);
+        connection.attachToWebsocketUrl(targetUrl());
+        const client = await connectToChannel(channelPort);
+        assert.deepEqual(await sendRequest(client, 1), { id: 1, result: {} });
+
+        // The target is down for a while, so the connection is retried several times
+        const clientClosed = new Promise(resolve => client.once('close', resolve));
+        await new Promise(resolve => targetServer.close(resolve));
+        await clientClosed;
+        const reconnected = connection.reconnect();
+        await new Promise(resolve => setTimeout(resolve, 500));
+
+        // The port is still listening, and the client is disconnected when the new connection replaces the previous one
+        const clientDuringReconnect = await connectToChannel(channelPort);
+        const clientDuringReconnectClosed = new Promise(resolve => clientDuringReconnect.once('close', resolve));
+        targetServer = await startTargetServer(targetPort);
+        await reconnected;
+        await clientDuringReconnectClosed;
+
+        assert.deepEqual(await sendRequest(await connectToChannel(channelPort), 2), { id: 2, result: {} });
+    });
+});
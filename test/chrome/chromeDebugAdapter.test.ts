@@ -7,12 +7,13 @@ import { DebugProtocol } from 'vscode-debugprotocol';
 import { getMockLineNumberTransformer, getMockPathTransformer, getMockSourceMapTransformer } from '../mocks/transformerMocks';
 import { getMockChromeConnectionApi, IMockChromeConnectionAPI } from '../mocks/debugProtocolMocks';
 
-import { ISetBreakpointsResponseBody, IEvaluateResponseBody, ISetBreakpointsArgs } from '../../src/debugAdapterInterfaces';
+import { ISetBreakpointsResponseBody, IEvaluateResponseBody, ISetBreakpointsArgs, ISourceBreakpoint } from '../../src/debugAdapterInterfaces';
 import { ChromeConnection } from '../../src/chrome/chromeConnection';
 
 import { LineColTransformer } from '../../src/transformers/lineNumberTransformer';
 import { BaseSourceMapTransformer } from '../../src/transformers/baseSourceMapTransformer';
 import { UrlPathTransformer } from '../../src/transformers/urlPathTransformer';
+import { InternalSourceBreakpoint } from '../../src/chrome/internalSourceBreakpoint';
 
 import * as mockery from 'mockery';
 import { EventEmitter } from 'events';
@@ -23,6 +24,8 @@ import { Protocol as Crdp } from 'devtools-protocol';
 import * as testUtils from '../testUtils';
 import * as utils from '../../src/utils';
 import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 /** Not mocked - use for type only */
 import {ChromeDebugAdapter as _ChromeDebugAdapter } from '../../src/chrome/chromeDebugAdapter';
@@ -45,6 +48,7 @@ suite('ChromeDebugAdapter', () => {
 
     let chromeDebugAdapter: _ChromeDebugAdapter;
     let sendEventHandler: (e: DebugProtocol.Event) => void;
+    let connectionCloseHandler: () => void;
 
     setup(() => {
         testUtils.setupUnhandledRejectionListener();
@@ -64,6 +68,7 @@ suite('ChromeDebugAdapter', () => {
             .verifiable(Times.atLeast(0));
         mockChromeConnection
             .setup(x => x.onClose(It.isAny()))
+            .callback(handler => connectionCloseHandler = handler)
             .verifiable(Times.atLeast(0));
         mockChromeConnection
             .setup(x => x.events)
@@ -84,6 +89,10 @@ suite('ChromeDebugAdapter', () => {
             .setup(x => x.version)
             .returns(() => Promise.resolve(new TargetVersions(Version.unknownVersion(), Version.unknownVersion())))
             .verifiable(Times.atLeast(0));
+        mockChromeConnection
+            .setup(x => x.attachedTarget)
+            .returns(() => undefined)
+            .verifiable(Times.atLeast(0));
         mockLineNumberTransformer = getMockLineNumberTransformer();
         mockSourceMapTransformer = getMockSourceMapTransformer();
         mockPathTransformer = getMockPathTransformer();
@@ -115,6 +124,9 @@ suite('ChromeDebugAdapter', () => {
 
     teardown(async () => {
         sendEventHandler = undefined;
+
+        // Stop the timers of the adapter, so that they don't send events during the next tests
+        await (<any>chromeDebugAdapter).terminateSession('Test finished');
         testUtils.removeUnhandledRejectionListener();
         mockery.deregisterAll();
         mockery.disable();
@@ -179,6 +191,13 @@ suite('ChromeDebugAdapter', () => {
                 () => done(new Error('Expecting promise to be rejected')),
                 e => { done(); /* Expecting promise to be rejected */ });
         });
+
+        test('fails when there are more extra CRDP channels than the multiplexor supports', async () => {
+            const extraCRDPChannels = [1, 2, 3, 4, 5, 6, 7, 8, 9].map(i => ({ name: 'channel' + i, port: 9300 + i }));
+            await chromeDebugAdapter.attach({ ...ATTACH_ARGS, extraCRDPChannels, extraCRDPChannelPort: 9300 }).then(
+                () => assert.fail('Expected the attach to fail'),
+                e => assert.equal(e.id, 2039));
+        });
     });
 
     suite('setBreakpoints()', () => {
@@ -187,7 +206,8 @@ suite('ChromeDebugAdapter', () => {
         const SCRIPT_ID = '1';
         function expectSetBreakpoint(breakpoints: DebugProtocol.SourceBreakpoint[], url?: string, scriptId = SCRIPT_ID, success = true): void {
             breakpoints.forEach((bp, i) => {
-                const { line: lineNumber, column: columnNumber, condition } = bp;
+                const { line: lineNumber, column: columnNumber } = bp;
+                const condition = new InternalSourceBreakpoint(bp).condition;
                 const location = { scriptId, lineNumber, columnNumber };
 
                 if (url) {
@@ -262,6 +282,21 @@ suite('ChromeDebugAdapter', () => {
             emitScriptParsed(url, scriptId, sources);
         }
 
+        function emitLogpointMessage(message: string, lineNumber: number, columnNumber: number): void {
+            mockEventEmitter.emit('Runtime.consoleAPICalled', <Crdp.Runtime.ConsoleAPICalledEvent>{
+                type: 'log',
+                args: [{ type: 'string', value: message }],
+                executionContextId: 1,
+                timestamp: 1754079033.244016,
+                stackTrace: {
+                    callFrames: [
+                        { functionName: '', scriptId: SCRIPT_ID, url: InternalSourceBreakpoint.LOGPOINT_URL, lineNumber: 1, columnNumber: 0 },
+                        { functionName: 'render', scriptId: SCRIPT_ID, url: FILE_NAME, lineNumber, columnNumber }
+                    ]
+                }
+            });
+        }
+
         test('When setting one breakpoint, returns the correct result', () => {
             const breakpoints: DebugProtocol.SourceBreakpoint[] = [
                 { line: 5, column: 6 }
@@ -474,6 +509,439 @@ suite('ChromeDebugAdapter', () => {
             setBp_emitScriptParsedWithSourcemaps(generatedScriptPath, authoredSourcePath);
             await expectBreakpointEvent(bpId);
         });
+
+        test('sets the breakpoints whose condition compiles', async () => {
+            const breakpoints: DebugProtocol.SourceBreakpoint[] = [
+                { line: 5, column: 6, condition: 'x > 1' },
+                { line: 8, column: 2, condition: '(x > 1' }
+            ];
+            expectSetBreakpoint(breakpoints.slice(0, 1), FILE_NAME);
+            mockChrome.Runtime
+                .setup(x => x.compileScript(It.isAny()))
+                .returns((request: Crdp.Runtime.CompileScriptRequest) => Promise.resolve(request.expression === '(x > 1' ?
+                    { exceptionDetails: <Crdp.Runtime.ExceptionDetails>{ text: 'Uncaught', exception: { type: 'object', description: 'SyntaxError: Unexpected end of input' } } } :
+                    {}));
+
+            await chromeDebugAdapter.attach(ATTACH_ARGS);
+            setBp_emitScriptParsed();
+            const response = await chromeDebugAdapter.setBreakpoints({ source: { path: FILE_NAME }, breakpoints }, null, 0);
+
+            assert.deepEqual(response.breakpoints.map(bp => bp.verified), [true, false]);
+            assert.notEqual(response.breakpoints[0].id, response.breakpoints[1].id);
+        });
+
+        test('breakpointDiagnostics reports how the breakpoints of a source were set', async () => {
+            const breakpoints: DebugProtocol.SourceBreakpoint[] = [
+                { line: 5, column: 6 }
+            ];
+            expectSetBreakpoint(breakpoints, FILE_NAME);
+
+            await chromeDebugAdapter.attach(ATTACH_ARGS);
+            setBp_emitScriptParsed();
+            await chromeDebugAdapter.setBreakpoints({ source: { path: FILE_NAME }, breakpoints }, null, 0);
+
+            const diagnostics = await chromeDebugAdapter.breakpointDiagnostics({ path: FILE_NAME });
+            assert.equal(diagnostics.targetPath, FILE_NAME);
+            assert.equal(diagnostics.urlRegex, utils.pathToRegex(FILE_NAME));
+            assert.deepEqual(diagnostics.loadedScripts.map(script => ({ scriptId: script.scriptId, referencedBy: script.referencedBy })), [{ scriptId: SCRIPT_ID, referencedBy: 'url' }]);
+            assert.deepEqual(diagnostics.breakpoints.map(bp => ({ lineNumber: bp.lineNumber, columnNumber: bp.columnNumber, resolvedLocations: bp.resolvedLocations })), [
+                { lineNumber: 5, columnNumber: 6, resolvedLocations: [{ scriptId: SCRIPT_ID, lineNumber: 5, columnNumber: 6 }] }
+            ]);
+            assert(!diagnostics.pendingOnScriptLoad);
+        });
+
+        test('breakpointDiagnostics reports breakpoints that wait for their script to load', async () => {
+            const authoredSourcePath = '/project/foo.ts';
+
+            await chromeDebugAdapter.attach(ATTACH_ARGS);
+            mockSourceMapTransformer.setup(x => x.getGeneratedPathFromAuthoredPath(It.isValue(authoredSourcePath)))
+                .returns(() => Promise.resolve(undefined));
+            await chromeDebugAdapter.setBreakpoints({ source: { path: authoredSourcePath }, breakpoints: [{ line: 5 }] }, null, 0);
+
+            const diagnostics = await chromeDebugAdapter.breakpointDiagnostics({ path: authoredSourcePath });
+            assert.equal(diagnostics.generatedPath, null);
+            assert.equal(diagnostics.targetPath, null);
+            assert.deepEqual(diagnostics.breakpoints, []);
+            assert(diagnostics.pendingOnScriptLoad);
+        });
+
+        test('breakpointStatistics counts the hits of logpoints', async () => {
+            const breakpoints: DebugProtocol.SourceBreakpoint[] = [
+                { line: 5, column: 6, logMessage: 'x is {x}' }
+            ];
+            expectSetBreakpoint(breakpoints, FILE_NAME);
+
+            await chromeDebugAdapter.attach(ATTACH_ARGS);
+            setBp_emitScriptParsed();
+            const response = await chromeDebugAdapter.setBreakpoints({ source: { path: FILE_NAME }, breakpoints }, null, 0);
+
+            emitLogpointMessage('x is 1', 5, 6);
+            emitLogpointMessage('x is 2', 5, 6);
+            await new Promise(resolve => setTimeout(resolve, 0));
+
+            const statistics = chromeDebugAdapter.breakpointStatistics();
+            assert.deepEqual(statistics.breakpoints.map(bp => ({ id: bp.id, hitCount: bp.hitCount })), [{ id: response.breakpoints[0].id, hitCount: 2 }]);
+            assert.deepEqual(statistics.breakpoints[0].recentHits[0].stack, ['render (a.js:6:7)']);
+        });
+
+        test('the hit messages keep the location of the breakpoint', async () => {
+            (<any>require('../../src/chrome/breakpoints').Breakpoints).UPDATE_HIT_MESSAGES_DELAY = 0;
+            const breakpoints: DebugProtocol.SourceBreakpoint[] = [
+                { line: 5, column: 6, logMessage: 'x is {x}' }
+            ];
+            expectSetBreakpoint(breakpoints, FILE_NAME);
+
+            await chromeDebugAdapter.attach(ATTACH_ARGS);
+            setBp_emitScriptParsed();
+            const response = await chromeDebugAdapter.setBreakpoints({ source: { path: FILE_NAME }, breakpoints }, null, 0);
+
+            const changedBreakpoints: DebugProtocol.Breakpoint[] = [];
+            sendEventHandler = (event: DebugProtocol.Event) => {
+                if (event.event === 'breakpoint') {
+                    changedBreakpoints.push(event.body.breakpoint);
+                }
+            };
+            emitLogpointMessage('x is 1', 5, 6);
+            await new Promise(resolve => setTimeout(resolve, 10));
+
+            assert.equal(changedBreakpoints.length, 1);
+            const { id, verified, line, column } = changedBreakpoints[0];
+            assert.deepEqual({ id, verified, line, column }, { id: response.breakpoints[0].id, verified: true, line: 5, column: 6 });
+        });
+
+        test('terminating the session cancels the pending hit messages', async () => {
+            (<any>require('../../src/chrome/breakpoints').Breakpoints).UPDATE_HIT_MESSAGES_DELAY = 10;
+            const breakpoints: DebugProtocol.SourceBreakpoint[] = [
+                { line: 5, column: 6, logMessage: 'x is {x}' }
+            ];
+            expectSetBreakpoint(breakpoints, FILE_NAME);
+
+            await chromeDebugAdapter.attach(ATTACH_ARGS);
+            setBp_emitScriptParsed();
+            await chromeDebugAdapter.setBreakpoints({ source: { path: FILE_NAME }, breakpoints }, null, 0);
+
+            sendEventHandler = (event: DebugProtocol.Event) => {
+                if (event.event === 'breakpoint') {
+                    testUtils.assertFail('Sent a hit message after the session was terminated');
+                }
+            };
+            emitLogpointMessage('x is 1', 5, 6);
+            await new Promise(resolve => setTimeout(resolve, 0));
+            await (<any>chromeDebugAdapter).terminateSession('Test');
+            await new Promise(resolve => setTimeout(resolve, 30));
+        });
+
+        test('a logpoint triggered by another one stays silent until the other one was hit', async () => {
+            const breakpoints: ISourceBreakpoint[] = [
+                { line: 5, column: 6, logMessage: 'opened' },
+                { line: 8, column: 2, logMessage: 'saved', triggeredBy: { path: FILE_NAME, line: 5 } }
+            ];
+            expectSetBreakpoint(breakpoints, FILE_NAME);
+
+            await chromeDebugAdapter.attach(ATTACH_ARGS);
+            setBp_emitScriptParsed();
+            await chromeDebugAdapter.setBreakpoints({ source: { path: FILE_NAME }, breakpoints }, null, 0);
+
+            const output: string[] = [];
+            sendEventHandler = (event: DebugProtocol.Event) => {
+                if (event.event === 'output') {
+                    output.push(event.body.output.trim());
+                }
+            };
+            emitLogpointMessage('saved', 8, 2);
+            emitLogpointMessage('opened', 5, 6);
+            emitLogpointMessage('saved', 8, 2);
+            await new Promise(resolve => setTimeout(resolve, 0));
+
+            assert.deepEqual(output, ['opened', 'saved']);
+        });
+
+        test('the hits of a dormant logpoint are not counted', async () => {
+            const breakpoints: ISourceBreakpoint[] = [
+                { line: 5, column: 6, logMessage: 'opened' },
+                { line: 8, column: 2, logMessage: 'saved', triggeredBy: { path: FILE_NAME, line: 5 } }
+            ];
+            expectSetBreakpoint(breakpoints, FILE_NAME);
+
+            await chromeDebugAdapter.attach(ATTACH_ARGS);
+            setBp_emitScriptParsed();
+            const response = await chromeDebugAdapter.setBreakpoints({ source: { path: FILE_NAME }, breakpoints }, null, 0);
+
+            emitLogpointMessage('saved', 8, 2);
+            emitLogpointMessage('opened', 5, 6);
+            emitLogpointMessage('saved', 8, 2);
+            await new Promise(resolve => setTimeout(resolve, 0));
+
+            const hitCounts = chromeDebugAdapter.breakpointStatistics().breakpoints.map(bp => ({ id: bp.id, hitCount: bp.hitCount }));
+            assert.deepEqual(hitCounts, [{ id: response.breakpoints[0].id, hitCount: 1 }, { id: response.breakpoints[1].id, hitCount: 1 }]);
+        });
+
+        test('a navigation keeps the unverified triggered breakpoints unverified', async () => {
+            const breakpoints: ISourceBreakpoint[] = [
+                { line: 5, column: 6 },
+                { line: 8, column: 2, triggeredBy: { path: FILE_NAME, line: 5 } }
+            ];
+            expectSetBreakpoint(breakpoints, FILE_NAME, SCRIPT_ID, /*success=*/false);
+
+            await chromeDebugAdapter.attach(ATTACH_ARGS);
+            setBp_emitScriptParsed();
+            const response = await chromeDebugAdapter.setBreakpoints({ source: { path: FILE_NAME }, breakpoints }, null, 0);
+
+            const changedBreakpoints: DebugProtocol.Breakpoint[] = [];
+            sendEventHandler = (event: DebugProtocol.Event) => {
+                if (event.event === 'breakpoint') {
+                    changedBreakpoints.push(event.body.breakpoint);
+                }
+            };
+            mockEventEmitter.emit('Runtime.executionContextsCleared');
+
+            assert.deepEqual(changedBreakpoints.map(bp => ({ id: bp.id, verified: bp.verified })), [{ id: response.breakpoints[1].id, verified: false }]);
+        });
+
+        test('the messages of the logpoints are written to the output file when the console output is suppressed', async () => {
+            const logpointOutputFile = path.join(os.tmpdir(), `chromeDebugAdapter-logpoints-${process.pid}.jsonl`);
+            const breakpoints: ISourceBreakpoint[] = [
+                { line: 5, column: 6, logMessage: 'x is {x}' }
+            ];
+            expectSetBreakpoint(breakpoints, FILE_NAME);
+
+            await chromeDebugAdapter.attach({ ...ATTACH_ARGS, logpointOutputFile, _suppressConsoleOutput: true });
+            setBp_emitScriptParsed();
+            await chromeDebugAdapter.setBreakpoints({ source: { path: FILE_NAME }, breakpoints }, null, 0);
+
+            sendEventHandler = (event: DebugProtocol.Event) => {
+                if (event.event === 'output') {
+                    testUtils.assertFail('Showed a logpoint message');
+                }
+            };
+            emitLogpointMessage('x is 1', 5, 6);
+            await (<any>chromeDebugAdapter).terminateSession('Test');
+
+            try {
+                const entries = fs.readFileSync(logpointOutputFile, 'utf8').split('\n').filter(line => !!line).map(line => JSON.parse(line));
+                assert.deepEqual(entries.map(entry => ({ line: entry.source.line, column: entry.source.column })), [{ line: 6, column: 7 }]);
+            } finally {
+                fs.unlinkSync(logpointOutputFile);
+            }
+        });
+
+        test('the messages of a logpoint over the rate limit are not shown', async () => {
+            const breakpoints: ISourceBreakpoint[] = [
+                { line: 5, column: 6, logMessage: 'x is {x}' }
+            ];
+            expectSetBreakpoint(breakpoints, FILE_NAME);
+
+            await chromeDebugAdapter.attach({ ...ATTACH_ARGS, logpointRateLimit: 2 });
+            setBp_emitScriptParsed();
+            await chromeDebugAdapter.setBreakpoints({ source: { path: FILE_NAME }, breakpoints }, null, 0);
+
+            const output: string[] = [];
+            sendEventHandler = (event: DebugProtocol.Event) => {
+                if (event.event === 'output') {
+                    output.push(event.body.output.trim());
+                }
+            };
+            emitLogpointMessage('x is 1', 5, 6);
+            emitLogpointMessage('x is 2', 5, 6);
+            emitLogpointMessage('x is 3', 5, 6);
+            await new Promise(resolve => setTimeout(resolve, 0));
+
+            assert.deepEqual(output, ['x is 1', 'x is 2']);
+        });
+
+        test('a snapshot point takes a snapshot and resumes', async () => {
+            const breakpoints: ISourceBreakpoint[] = [
+                { line: 5, column: 6, snapshot: true }
+            ];
+            expectSetBreakpoint(breakpoints, FILE_NAME);
+
+            await chromeDebugAdapter.attach(ATTACH_ARGS);
+            setBp_emitScriptParsed();
+            const response = await chromeDebugAdapter.setBreakpoints({ source: { path: FILE_NAME }, breakpoints }, null, 0);
+
+            const resumed = new Promise(resolve => {
+                mockChrome.Debugger
+                    .setup(x => x.resume())
+                    .returns(() => {
+                        resolve();
+                        return Promise.resolve();
+                    });
+            });
+            sendEventHandler = (event: DebugProtocol.Event) => {
+                if (event.event === 'stopped') {
+                    testUtils.assertFail('Stopped on a snapshot point');
+                }
+            };
+            mockEventEmitter.emit('Debugger.paused', <Crdp.Debugger.PausedEvent>{
+                reason: 'other',
+                hitBreakpoints: [BP_ID + 0],
+                callFrames: [{
+                    callFrameId: '1',
+                    functionName: 'save',
+                    url: FILE_NAME,
+                    location: { scriptId: SCRIPT_ID, lineNumber: 5, columnNumber: 6 },
+                    scopeChain: [],
+                    this: { type: 'undefined' }
+                }]
+            });
+            await resumed;
+
+            const snapshots = chromeDebugAdapter.snapshots().snapshots;
+            assert.deepEqual(snapshots.map(snapshot => snapshot.breakpointId), [response.breakpoints[0].id]);
+            assert.equal(snapshots[0].stackFrames[0].name, 'save');
+        });
+    });
+
+    suite('setFunctionBreakpoints()', () => {
+        function expectEvaluate(expression: string, response: Crdp.Runtime.EvaluateResponse): void {
+            mockChrome.Runtime
+                .setup(x => x.evaluate(It.isValue(<Crdp.Runtime.EvaluateRequest>{ expression, silent: true, objectGroup: 'functionBreakpoints', throwOnSideEffect: true })))
+                .returns(() => Promise.resolve(response));
+        }
+
+        function expectSetBreakpointOnFunctionCall(objectId: string, breakpointId: string, condition?: string): void {
+            mockChrome.Debugger
+                .setup(x => x.setBreakpointOnFunctionCall(It.isValue({ objectId, condition })))
+                .returns(() => Promise.resolve({ breakpointId }))
+                .verifiable(Times.atLeastOnce());
+        }
+
+        test('sets the breakpoints on the functions that the names evaluate to', async () => {
+            await chromeDebugAdapter.attach(ATTACH_ARGS);
+            expectEvaluate('MyClass.prototype.render', { result: { type: 'function', objectId: 'render' } });
+            expectEvaluate('notDefinedYet', { result: { type: 'object' }, exceptionDetails: <Crdp.Runtime.ExceptionDetails>{ text: 'ReferenceError' } });
+            expectEvaluate('window.location', { result: { type: 'object', objectId: 'location' } });
+            expectSetBreakpointOnFunctionCall('render', 'functionBp1', 'x > 1');
+
+            const response = await chromeDebugAdapter.setFunctionBreakpoints({ breakpoints: [
+                { name: 'MyClass.prototype.render', condition: 'x > 1' },
+                { name: 'notDefinedYet' },
+                { name: 'window.location' }
+            ]});
+
+            assert.deepEqual(response.breakpoints.map(bp => bp.verified), [true, false, false]);
+        });
+
+        test('forgets the ids of the breakpoints that are replaced', async () => {
+            await chromeDebugAdapter.attach(ATTACH_ARGS);
+            expectEvaluate('window.fetch', { result: { type: 'function', objectId: 'fetch' } });
+            expectSetBreakpointOnFunctionCall('fetch', 'functionBp1');
+            const breakpoints = (<any>chromeDebugAdapter)._breakpoints;
+
+            const response = await chromeDebugAdapter.setFunctionBreakpoints({ breakpoints: [{ name: 'window.fetch' }] });
+            assert.equal(breakpoints._breakpointIdHandles.lookup('functionBp1'), response.breakpoints[0].id);
+
+            await chromeDebugAdapter.setFunctionBreakpoints({ breakpoints: [] });
+            assert.equal(breakpoints._breakpointIdHandles.lookup('functionBp1'), undefined);
+            assert.equal(breakpoints._breakpointIdHandles.get(response.breakpoints[0].id), undefined);
+            assert(!breakpoints._clientBreakpointsById.has(response.breakpoints[0].id));
+        });
+
+        test('binds the breakpoints again after the target navigates', async () => {
+            (<any>require('../../src/chrome/breakpoints').Breakpoints).BIND_FUNCTION_BREAKPOINTS_DELAY = 0;
+            await chromeDebugAdapter.attach(ATTACH_ARGS);
+            expectEvaluate('window.fetch', { result: { type: 'function', objectId: 'fetch' } });
+            expectSetBreakpointOnFunctionCall('fetch', 'functionBp1');
+
+            const response = await chromeDebugAdapter.setFunctionBreakpoints({ breakpoints: [{ name: 'window.fetch' }] });
+            const bpId = response.breakpoints[0].id;
+
+            const breakpointEvents: DebugProtocol.BreakpointEvent[] = [];
+            sendEventHandler = e => {
+                if (e.event === 'breakpoint') {
+                    breakpointEvents.push(<DebugProtocol.BreakpointEvent>e);
+                }
+            };
+
+            mockEventEmitter.emit('Runtime.executionContextsCleared');
+            assert.deepEqual(breakpointEvents.map(e => ({ id: e.body.breakpoint.id, verified: e.body.breakpoint.verified })), [{ id: bpId, verified: false }]);
+
+            emitScriptParsed('http://localhost/app.js', '1');
+            await new Promise(resolve => setTimeout(resolve, 10));
+            assert.deepEqual(breakpointEvents.map(e => ({ id: e.body.breakpoint.id, verified: e.body.breakpoint.verified })), [{ id: bpId, verified: false }, { id: bpId, verified: true }]);
+        });
+
+        test('terminating the session cancels the pending binding of the breakpoints', async () => {
+            (<any>require('../../src/chrome/breakpoints').Breakpoints).BIND_FUNCTION_BREAKPOINTS_DELAY = 10;
+            await chromeDebugAdapter.attach(ATTACH_ARGS);
+            expectEvaluate('window.fetch', { result: { type: 'function', objectId: 'fetch' } });
+            expectSetBreakpointOnFunctionCall('fetch', 'functionBp1');
+            await chromeDebugAdapter.setFunctionBreakpoints({ breakpoints: [{ name: 'window.fetch' }] });
+
+            mockEventEmitter.emit('Runtime.executionContextsCleared');
+            const verifiedBreakpoints: DebugProtocol.Breakpoint[] = [];
+            sendEventHandler = e => {
+                if (e.event === 'breakpoint' && e.body.breakpoint.verified) {
+                    verifiedBreakpoints.push(e.body.breakpoint);
+                }
+            };
+
+            emitScriptParsed('http://localhost/app.js', '1');
+            await (<any>chromeDebugAdapter).terminateSession('Test');
+            await new Promise(resolve => setTimeout(resolve, 30));
+            assert.deepEqual(verifiedBreakpoints, []);
+        });
+    });
+
+    suite('runToLocation()', () => {
+        // The first column in the client
+        let clientColumnBase: number;
+
+        setup(() => {
+            clientColumnBase = 1;
+            mockLineNumberTransformer.setup(m => m.convertClientLineToDebugger(It.isAnyNumber()))
+                .returns(line => line - 1);
+            mockLineNumberTransformer.setup(m => m.convertClientColumnToDebugger(It.isAnyNumber()))
+                .returns(column => column - clientColumnBase);
+            mockLineNumberTransformer.setup(m => m.convertDebuggerColumnToClient(It.isAnyNumber()))
+                .returns(column => column + clientColumnBase);
+        });
+
+        test('continues to the generated location of the authored location', async () => {
+            await chromeDebugAdapter.attach(ATTACH_ARGS);
+            emitScriptParsed('http://localhost/app.js', '1', ['/src/app.ts']);
+            mockSourceMapTransformer.setup(m => m.mapToGenerated(It.isValue('/src/app.ts'), It.isValue(4), It.isValue(0)))
+                .returns(() => Promise.resolve({ source: 'http://localhost/app.js', line: 20, column: 8 }));
+            mockChrome.Debugger
+                .setup(x => x.continueToLocation(It.isValue(<Crdp.Debugger.ContinueToLocationRequest>{ location: { scriptId: '1', lineNumber: 20, columnNumber: 8 }, targetCallFrames: 'current' })))
+                .returns(() => Promise.resolve())
+                .verifiable(Times.once());
+
+            await chromeDebugAdapter.runToLocation({ source: { path: '/src/app.ts' }, line: 5, targetCallFrames: 'current' });
+        });
+
+        test('continues to the start of the line when the client columns start at 0', async () => {
+            clientColumnBase = 0;
+            await chromeDebugAdapter.attach(ATTACH_ARGS);
+            emitScriptParsed('http://localhost/app.js', '1');
+            mockChrome.Debugger
+                .setup(x => x.continueToLocation(It.isValue(<Crdp.Debugger.ContinueToLocationRequest>{ location: { scriptId: '1', lineNumber: 4, columnNumber: 0 }, targetCallFrames: 'any' })))
+                .returns(() => Promise.resolve())
+                .verifiable(Times.once());
+
+            await chromeDebugAdapter.runToLocation({ source: { path: 'http://localhost/app.js' }, line: 5 });
+        });
+
+        test('a failure to continue is reported to the client, and does not fail the session terminating later', async () => {
+            await chromeDebugAdapter.attach(ATTACH_ARGS);
+            emitScriptParsed('http://localhost/app.js', '1');
+            mockChrome.Debugger
+                .setup(x => x.continueToLocation(It.isAny()))
+                .returns(() => Promise.reject(new Error('Can only perform operation while paused.')));
+
+            await chromeDebugAdapter.runToLocation({ source: { path: 'http://localhost/app.js' }, line: 5 })
+                .then(() => assert.fail('Expected runToLocation to fail'), () => { /* expected */ });
+            await (<any>chromeDebugAdapter).terminateSession('Test');
+        });
+
+        test('fails when the script of the location is not loaded', async () => {
+            await chromeDebugAdapter.attach(ATTACH_ARGS);
+            mockSourceMapTransformer.setup(m => m.mapToGenerated(It.isAnyString(), It.isAnyNumber(), It.isAnyNumber()))
+                .returns(() => Promise.resolve(null));
+
+            await chromeDebugAdapter.runToLocation({ source: { path: '/notLoaded.js' }, line: 1 })
+                .then(() => assert.fail('Expected runToLocation to fail'), () => { /* expected */ });
+        });
     });
 
     suite('Console.messageAdded', () => {
@@ -880,7 +1348,65 @@ suite('ChromeDebugAdapter', () => {
     });
 
     suite('setExceptionBreakpoints()', () => { });
-    suite('stepping', () => { });
+    suite('stepping', () => {
+        function captureStepIntoRequests(): Crdp.Debugger.StepIntoRequest[] {
+            const requests: Crdp.Debugger.StepIntoRequest[] = [];
+            mockChrome.Debugger
+                .setup(x => x.stepInto(It.isAny()))
+                .returns(request => {
+                    requests.push(request);
+                    return Promise.resolve();
+                });
+            return requests;
+        }
+
+        test('stepIn follows async calls', async () => {
+            const requests = captureStepIntoRequests();
+            await chromeDebugAdapter.attach(ATTACH_ARGS);
+            await chromeDebugAdapter.stepIn();
+
+            assert.deepEqual(requests, [{ breakOnAsyncCall: true }]);
+        });
+
+        test('stepIn does not follow async calls when async stepping is off', async () => {
+            const requests = captureStepIntoRequests();
+            await chromeDebugAdapter.attach({ ...ATTACH_ARGS, asyncStepping: false });
+            await chromeDebugAdapter.stepIn();
+
+            assert.deepEqual(requests, [{ breakOnAsyncCall: false }]);
+        });
+
+        test('next at the return of an async task follows the async call that the return schedules', async () => {
+            const requests = captureStepIntoRequests();
+            await chromeDebugAdapter.attach(ATTACH_ARGS);
+
+            const location: Crdp.Debugger.Location = { scriptId: '1', lineNumber: 5, columnNumber: 4 };
+            const callFrame = { callFrameId: 'id1', functionLocation: location, location, returnValue: { type: 'undefined' } };
+            emitScriptParsed('http://localhost/app.js', '1');
+            mockEventEmitter.emit('Debugger.paused', <Crdp.Debugger.PausedEvent>{
+                reason: 'other',
+                callFrames: [callFrame],
+                asyncStackTrace: { description: 'Promise.then', callFrames: [] }
+            });
+            await new Promise(resolve => setTimeout(resolve, 0));
+            await chromeDebugAdapter.next();
+
+            assert.deepEqual(requests, [{ breakOnAsyncCall: true }]);
+        });
+
+        test('async calls are tracked for async stepping when the async stacks are not shown', async () => {
+            const requests: Crdp.Debugger.SetAsyncCallStackDepthRequest[] = [];
+            mockChrome.Debugger
+                .setup(x => x.setAsyncCallStackDepth(It.isAny()))
+                .returns(request => {
+                    requests.push(request);
+                    return Promise.resolve();
+                });
+            await chromeDebugAdapter.attach({ ...ATTACH_ARGS, showAsyncStacks: false });
+
+            assert.deepEqual(requests, [{ maxDepth: 1 }]);
+        });
+    });
     suite('stackTrace()', () => { });
     suite('scopes()', () => { });
     suite('variables()', () => { });
@@ -888,5 +1414,35 @@ suite('ChromeDebugAdapter', () => {
     suite('threads()', () => { });
 
     suite('Debugger.resume', () => { });
-    suite('target close/error/detach', () => { });
+    suite('target close/error/detach', () => {
+        test('when reconnectOnDisconnect is set, reconnects and sets the breakpoints again', async () => {
+            mockChromeConnection
+                .setup(x => x.reconnect(It.isAny()))
+                .returns(() => Promise.resolve())
+                .verifiable(Times.once());
+
+            const lineNumber = 5;
+            const columnNumber = 6;
+            const urlRegex = utils.pathToRegex('/a.js');
+            mockChrome.Debugger
+                .setup(x => x.setBreakpointByUrl(It.isValue({ urlRegex, lineNumber, columnNumber, condition: undefined })))
+                .returns(() => Promise.resolve(<Crdp.Debugger.SetBreakpointByUrlResponse>{ breakpointId: 'bpId', locations: [] }))
+                .verifiable(Times.exactly(2));
+
+            const reconnectedEventP = new Promise(resolve => {
+                sendEventHandler = (event: DebugProtocol.Event) => {
+                    if (event.event === 'targetReconnected') {
+                        resolve();
+                    }
+                };
+            });
+
+            await chromeDebugAdapter.attach({ port: ATTACH_SUCCESS_PORT, reconnectOnDisconnect: true });
+            emitScriptParsed('/a.js', '1');
+            await chromeDebugAdapter.setBreakpoints({ source: { path: '/a.js' }, breakpoints: [{ line: lineNumber, column: columnNumber }] }, null, 0);
+
+            connectionCloseHandler();
+            await reconnectedEventP;
+        });
+    });
 });
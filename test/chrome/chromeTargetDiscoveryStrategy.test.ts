@@ -4,6 +4,7 @@
 
 import * as mockery from 'mockery';
 import * as assert from 'assert';
+import { Mock, It } from 'typemoq';
 
 import * as testUtils from '../testUtils';
 import { ITargetDiscoveryStrategy } from '../../src/chrome/chromeConnection';
@@ -11,6 +12,7 @@ import { ITargetDiscoveryStrategy } from '../../src/chrome/chromeConnection';
 import { NullLogger } from '../../src/nullLogger';
 import { NullTelemetryReporter } from '../../src/telemetry';
 import { Version } from '../../src';
+import * as utils from '../../src/utils';
 
 import * as _ctds from '../../src/chrome/chromeTargetDiscoveryStrategy';
 
@@ -246,6 +248,41 @@ suite('ChromeTargetDiscoveryStrategy', () => {
         });
     });
 
+    suite('waitForTarget', () => {
+        const matchingTarget = {
+            url: 'http://localhost/app',
+            webSocketDebuggerUrl: `ws://${TARGET_ADDRESS}:${TARGET_PORT}/app`
+        };
+
+        function registerTargetListSequence(targetLists: any[][]): void {
+            const utilsMock = Mock.ofInstance(utils);
+            utilsMock.callBase = true;
+            mockery.registerMock(UTILS_PATH, utilsMock.object);
+
+            let requestCount = 0;
+            utilsMock
+                .setup(x => x.getURL(It.isValue(TARGET_LIST_URL), It.isAny()))
+                .returns(() => Promise.resolve(JSON.stringify(targetLists[Math.min(requestCount++, targetLists.length - 1)])));
+        }
+
+        test('keeps polling until a matching target appears', async () => {
+            registerTargetListSequence([
+                [],
+                [{ url: 'http://localhost/login', webSocketDebuggerUrl: `ws://${TARGET_ADDRESS}:${TARGET_PORT}/login` }],
+                [matchingTarget]]);
+
+            const target = await getChromeTargetDiscoveryStrategy().getTarget(TARGET_ADDRESS, TARGET_PORT, undefined, matchingTarget.url, { interval: 1, timeout: 5000 });
+            assert.equal(target.webSocketDebuggerUrl, matchingTarget.webSocketDebuggerUrl);
+        });
+
+        test('rejects when no matching target appears before the timeout', () => {
+            registerTargetListSequence([[]]);
+
+            return testUtils.assertPromiseRejected(
+                getChromeTargetDiscoveryStrategy().getTarget(TARGET_ADDRESS, TARGET_PORT, undefined, matchingTarget.url, { interval: 1, timeout: 20 }));
+        });
+    });
+
     suite('removeTitleProperty', () => {
         const removeTitleProperty: typeof _ctds.removeTitleProperty = require(MODULE_UNDER_TEST).removeTitleProperty;
         test('works', () => {
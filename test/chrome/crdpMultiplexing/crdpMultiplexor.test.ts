@@ -21,10 +21,12 @@ suite('CRDPMultiplexor', () => {
     let multiplexor: CRDPMultiplexor;
     let webSocketMock: IMock<StubSocket>;
     let socketMessageCallbacks: Function[];
+    let sentMethods: string[];
 
     setup(() => {
         let socket = new StubSocket();
         socketMessageCallbacks = [];
+        sentMethods = [];
         webSocketMock = Mock.ofInstance<StubSocket>(socket);
         webSocketMock
             .setup(s => s.on('message', It.isAny()))
@@ -35,6 +37,7 @@ suite('CRDPMultiplexor', () => {
             .setup(s => s.send(It.isAnyString()))
             .returns((s: string) => {
                 let message = JSON.parse(s);
+                sentMethods.push(message.method);
                 for (let cb of socketMessageCallbacks) {
                     // Send empty result once we received a message
                     cb('{"id":' + message.id + ', "result":{}}');
@@ -175,4 +178,42 @@ suite('CRDPMultiplexor', () => {
         done();
 
     });
+
+    test('Disabling a domain that another channel uses is not sent to the target', async () => {
+        let debuggerChannel = multiplexor.addChannel('debugger');
+        let otherChannel = multiplexor.addChannel('other');
+        let otherChannelMessages: string[] = [];
+        debuggerChannel.on('message', () => { });
+        otherChannel.on('message', (data: string) => otherChannelMessages.push(data));
+
+        debuggerChannel.send('{"method":"Debugger.enable","id":1}');
+        otherChannel.send('{"method":"Debugger.enable","id":1}');
+        otherChannel.send('{"method":"Debugger.disable","id":2}');
+        await new Promise(resolve => setImmediate(resolve));
+
+        Assert.deepEqual(sentMethods, ['Debugger.enable', 'Debugger.enable']);
+        Assert.deepEqual(otherChannelMessages, ['{"id":1,"result":{}}', '{"id":2,"result":{}}']);
+
+        debuggerChannel.send('{"method":"Debugger.disable","id":2}');
+        Assert.deepEqual(sentMethods, ['Debugger.enable', 'Debugger.enable', 'Debugger.disable']);
+    });
+
+    test('Enabling a domain that another channel uses sends the current state of the domain', () => {
+        let debuggerChannel = multiplexor.addChannel('debugger');
+        debuggerChannel.on('message', () => { });
+        debuggerChannel.send('{"method":"Debugger.enable","id":1}');
+
+        socketMessageCallbacks[0]('{"method":"Debugger.scriptParsed","params":{"scriptId":"1","executionContextId":1}}');
+        socketMessageCallbacks[0]('{"method":"Debugger.scriptParsed","params":{"scriptId":"2","executionContextId":2}}');
+        socketMessageCallbacks[0]('{"method":"Runtime.executionContextDestroyed","params":{"executionContextId":2}}');
+
+        let receivedMessages: string[] = [];
+        let otherChannel = multiplexor.addChannel('other');
+        otherChannel.on('message', (data: string) => receivedMessages.push(data));
+        otherChannel.send('{"method":"Debugger.enable","id":1}');
+
+        Assert.deepEqual(receivedMessages, [
+            '{"id":1,"result":{}}',
+            '{"method":"Debugger.scriptParsed","params":{"scriptId":"1","executionContextId":1}}']);
+    });
 });
@@ -0,0 +1,90 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { SessionSocket } from '../../../src/chrome/crdpMultiplexing/sessionSocket';
+import { LikeSocket } from 'noice-json-rpc';
+import * as assert from 'assert';
+
+class StubSocket implements LikeSocket {
+    public sentMessages: string[] = [];
+    public messageCallbacks: Function[] = [];
+
+    send(message: string): void {
+        this.sentMessages.push(message);
+    }
+
+    removeListener(event: string, cb: Function): any {
+        this.messageCallbacks = this.messageCallbacks.filter(callback => callback !== cb);
+    }
+
+    on(event: 'open', cb: (ws: LikeSocket) => void): any;
+    on(event: 'message', cb: (data: string) => void): any;
+    on(event: string, cb: Function): any {
+        if (event === 'message') {
+            this.messageCallbacks.push(cb);
+        }
+    }
+
+    receive(message: any): void {
+        this.messageCallbacks.forEach(cb => cb(JSON.stringify(message)));
+    }
+}
+
+suite('SessionSocket', () => {
+    let stubSocket: StubSocket;
+
+    setup(() => {
+        stubSocket = new StubSocket();
+    });
+
+    test('the root session sends the messages unchanged', () => {
+        new SessionSocket(stubSocket).send('{"id":1,"method":"Debugger.enable"}');
+        assert.deepEqual(stubSocket.sentMessages, ['{"id":1,"method":"Debugger.enable"}']);
+    });
+
+    test('a child session adds its sessionId to the messages it sends', () => {
+        new SessionSocket(stubSocket, 'session1').send('{"id":1,"method":"Debugger.enable"}');
+        assert.deepEqual(JSON.parse(stubSocket.sentMessages[0]), { id: 1, method: 'Debugger.enable', sessionId: 'session1' });
+    });
+
+    test('each session only receives its own messages', () => {
+        const rootMessages: any[] = [];
+        const childMessages: any[] = [];
+        new SessionSocket(stubSocket).on('message', data => rootMessages.push(JSON.parse(data)));
+        new SessionSocket(stubSocket, 'session1').on('message', data => childMessages.push(JSON.parse(data)));
+
+        stubSocket.receive({ id: 1, result: {} });
+        stubSocket.receive({ id: 1, result: {}, sessionId: 'session1' });
+        stubSocket.receive({ method: 'Debugger.resumed', params: {}, sessionId: 'session2' });
+
+        assert.deepEqual(rootMessages, [{ id: 1, result: {} }]);
+        assert.deepEqual(childMessages, [{ id: 1, result: {}, sessionId: 'session1' }]);
+    });
+
+    test('removeListener removes the wrapped callback', () => {
+        const sessionSocket = new SessionSocket(stubSocket, 'session1');
+        const callback = () => { };
+        sessionSocket.on('message', callback);
+        sessionSocket.removeListener('message', callback);
+
+        assert.equal(stubSocket.messageCallbacks.length, 0);
+    });
+
+    test('close removes all the message callbacks', () => {
+        const sessionSocket = new SessionSocket(stubSocket, 'session1');
+        sessionSocket.on('message', () => { });
+        sessionSocket.on('message', () => { });
+        sessionSocket.close();
+
+        assert.equal(stubSocket.messageCallbacks.length, 0);
+    });
+
+    test('a child session is open right away', done => {
+        const sessionSocket = new SessionSocket(stubSocket, 'session1');
+        sessionSocket.on('open', ws => {
+            assert.equal(ws, sessionSocket);
+            done();
+        });
+    });
+});
@@ -0,0 +1,122 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as net from 'net';
+import * as WebSocket from 'ws';
+import { EventEmitter } from 'events';
+
+import { WebSocketToLikeSocketProxy, IWebSocketProxyOptions } from '../../../src/chrome/crdpMultiplexing/webSocketToLikeSocketProxy';
+
+/**
+ * The target side of the proxy, which records what the proxy sends to the target
+ */
+class TargetSocket extends EventEmitter {
+    public sentMessages: any[] = [];
+
+    public send(data: string): void {
+        this.sentMessages.push(JSON.parse(data));
+    }
+}
+
+suite('WebSocketToLikeSocketProxy', () => {
+    let targetSocket: TargetSocket;
+    let clients: WebSocket[];
+    let proxy: WebSocketToLikeSocketProxy;
+
+    setup(() => {
+        targetSocket = new TargetSocket();
+        clients = [];
+    });
+
+    teardown(async () => {
+        clients.forEach(client => client.terminate());
+        await proxy.close();
+    });
+
+    function getFreePort(): Promise<number> {
+        return new Promise<number>(resolve => {
+            const server = net.createServer();
+            server.listen(0, () => {
+                const port = server.address().port;
+                server.close(() => resolve(port));
+            });
+        });
+    }
+
+    async function startProxy(options?: IWebSocketProxyOptions): Promise<number> {
+        const port = await getFreePort();
+        proxy = new WebSocketToLikeSocketProxy(port, targetSocket, options);
+        await proxy.start();
+        return port;
+    }
+
+    function connect(address: string, options?: WebSocket.ClientOptions): Promise<WebSocket> {
+        const client = new WebSocket(address, options);
+        clients.push(client);
+        return new Promise<WebSocket>((resolve, reject) => {
+            client.once('open', () => resolve(client));
+            client.once('error', reject);
+        });
+    }
+
+    function nextMessage(client: WebSocket): Promise<any> {
+        return new Promise(resolve => client.once('message', data => resolve(JSON.parse(data.toString()))));
+    }
+
+    function waitForTarget(): Promise<void> {
+        return new Promise<void>(resolve => setTimeout(resolve, 50));
+    }
+
+    test('forwards the requests to the target and the messages of the target to the client', async () => {
+        const client = await connect(`ws://localhost:${await startProxy()}`);
+
+        client.send(JSON.stringify({ id: 1, method: 'Runtime.evaluate', params: { expression: '1' } }));
+        await waitForTarget();
+        assert.deepEqual(targetSocket.sentMessages, [{ id: 1, method: 'Runtime.evaluate', params: { expression: '1' } }]);
+
+        const response = nextMessage(client);
+        targetSocket.emit('message', JSON.stringify({ id: 1, result: {} }));
+        assert.deepEqual(await response, { id: 1, result: {} });
+    });
+
+    test('rejects the clients without the auth token', async () => {
+        const port = await startProxy({ authToken: 'secret' });
+
+        await connect(`ws://localhost:${port}`)
+            .then(() => assert.fail('Expected the connection to be rejected'), () => { /* expected */ });
+        await connect(`ws://localhost:${port}`, { headers: { Authorization: 'Bearer wrong' } })
+            .then(() => assert.fail('Expected the connection to be rejected'), () => { /* expected */ });
+
+        const client = await connect(`ws://localhost:${port}/?token=secret`);
+        const closed = new Promise(resolve => client.once('close', resolve));
+        client.close();
+        await closed;
+        await connect(`ws://localhost:${port}`, { headers: { Authorization: 'Bearer secret' } });
+    });
+
+    test('only sends the requests and notifications of the allowed domains', async () => {
+        const client = await connect(`ws://localhost:${await startProxy({ allowedDomains: ['Runtime'] })}`);
+
+        const rejection = nextMessage(client);
+        client.send(JSON.stringify({ id: 1, method: 'Debugger.pause' }));
+        assert.equal((await rejection).id, 1);
+        assert((await rejection).error);
+
+        const notification = nextMessage(client);
+        targetSocket.emit('message', JSON.stringify({ method: 'Debugger.paused', params: {} }));
+        targetSocket.emit('message', JSON.stringify({ method: 'Runtime.consoleAPICalled', params: {} }));
+        assert.equal((await notification).method, 'Runtime.consoleAPICalled');
+        assert.deepEqual(targetSocket.sentMessages, []);
+    });
+
+    test('closes a client that sends an invalid message', async () => {
+        const client = await connect(`ws://localhost:${await startProxy({ allowedDomains: ['Runtime'] })}`);
+
+        const closed = new Promise(resolve => client.once('close', resolve));
+        client.send('{ not json');
+        await closed;
+        assert.deepEqual(targetSocket.sentMessages, []);
+    });
+});
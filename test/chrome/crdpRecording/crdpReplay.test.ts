@@ -0,0 +1,81 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { Client } from 'noice-json-rpc';
+import { Protocol as Crdp } from 'devtools-protocol';
+import * as assert from 'assert';
+
+import { ReplaySocket, ReplayTargetDiscovery, isReplayUrl, replayUrlToRecordingPath } from '../../../src/chrome/crdpRecording/crdpReplay';
+import { ICrdpTrafficEntry, CrdpTrafficDirection } from '../../../src/chrome/crdpRecording/crdpTrafficRecorder';
+
+function entry(direction: CrdpTrafficDirection, message: any): ICrdpTrafficEntry {
+    return { timestamp: 0, direction, message: JSON.stringify(message) };
+}
+
+suite('CRDP replay', () => {
+    suite('ReplaySocket', () => {
+        test('sends the recorded response with the id of the new request', async () => {
+            const api: Crdp.ProtocolApi = new Client(new ReplaySocket([
+                entry('toTarget', { id: 7, method: 'Debugger.enable' }),
+                entry('fromTarget', { id: 7, result: { debuggerId: 'recordedDebugger' } })
+            ])).api();
+
+            const response = await api.Debugger.enable();
+            assert.equal(response.debuggerId, 'recordedDebugger');
+        });
+
+        test('sends the recorded events after the requests that preceded them', async () => {
+            const api: Crdp.ProtocolApi = new Client(new ReplaySocket([
+                entry('toTarget', { id: 1, method: 'Debugger.enable' }),
+                entry('fromTarget', { method: 'Debugger.scriptParsed', params: { scriptId: '1', url: 'a.js' } }),
+                entry('fromTarget', { id: 1, result: {} })
+            ])).api();
+
+            const parsedUrls: string[] = [];
+            api.Debugger.on('scriptParsed', params => parsedUrls.push(params.url));
+            await new Promise(resolve => setImmediate(resolve));
+            assert.deepEqual(parsedUrls, [], 'No events should be sent before Debugger.enable');
+
+            await api.Debugger.enable();
+            assert.deepEqual(parsedUrls, ['a.js']);
+        });
+
+        test('skips a recorded request that the adapter does not send in time', async () => {
+            const api: Crdp.ProtocolApi = new Client(new ReplaySocket([
+                entry('toTarget', { id: 1, method: 'Runtime.enable' }),
+                entry('fromTarget', { id: 1, result: {} }),
+                entry('fromTarget', { method: 'Debugger.scriptParsed', params: { scriptId: '1', url: 'a.js' } }),
+                entry('toTarget', { id: 2, method: 'Debugger.enable' }),
+                entry('fromTarget', { id: 2, result: { debuggerId: 'recordedDebugger' } })
+            ], /*maxRequestWait=*/10)).api();
+
+            const parsedUrls: string[] = [];
+            api.Debugger.on('scriptParsed', params => parsedUrls.push(params.url));
+
+            const response = await api.Debugger.enable();
+            assert.equal(response.debuggerId, 'recordedDebugger');
+            assert.deepEqual(parsedUrls, ['a.js']);
+        });
+
+        test('fails a request that is not in the recording', async () => {
+            const api: Crdp.ProtocolApi = new Client(new ReplaySocket([])).api();
+
+            try {
+                await api.Runtime.enable();
+                assert.fail('Expected the request to fail');
+            } catch (e) {
+                assert(e.message.indexOf('Runtime.enable') >= 0, e.message);
+            }
+        });
+    });
+
+    suite('ReplayTargetDiscovery', () => {
+        test('finds a target which replays the recording', async () => {
+            const target = await new ReplayTargetDiscovery('/recordings/session.jsonl').getTarget('127.0.0.1', 9222);
+
+            assert(isReplayUrl(target.webSocketDebuggerUrl));
+            assert.equal(replayUrlToRecordingPath(target.webSocketDebuggerUrl), '/recordings/session.jsonl');
+        });
+    });
+});
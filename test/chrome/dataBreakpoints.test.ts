@@ -0,0 +1,74 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { Protocol as Crdp } from 'devtools-protocol';
+import * as assert from 'assert';
+
+import { DataBreakpoints } from '../../src/chrome/dataBreakpoints';
+import { Breakpoints } from '../../src/chrome/breakpoints';
+import { LocalRuntime } from '../mocks/localRuntime';
+
+suite('DataBreakpoints', () => {
+    let runtime: LocalRuntime;
+    let breakpoints: Breakpoints;
+    let dataBreakpoints: DataBreakpoints;
+
+    setup(() => {
+        runtime = new LocalRuntime();
+        breakpoints = new Breakpoints(undefined, runtime.connection);
+        dataBreakpoints = new DataBreakpoints(undefined, runtime.connection, breakpoints);
+    });
+
+    async function setDataBreakpoint(obj: any, name: string, accessType: 'read' | 'write' | 'readWrite' = 'write') {
+        const { objectId } = runtime.remoteObject(obj);
+        const info = await dataBreakpoints.dataBreakpointInfo({ objectId, name }, name);
+        return dataBreakpoints.setDataBreakpoints({ breakpoints: [{ dataId: info.dataId, accessType }] });
+    }
+
+    test('does not offer data breakpoints on variables that are not properties', async () => {
+        const info = await dataBreakpoints.dataBreakpointInfo(undefined, 'localVariable');
+        assert.equal(info.dataId, null);
+    });
+
+    test('replaces the property with an accessor which keeps the value', async () => {
+        const obj = { count: 1 };
+        const response = await setDataBreakpoint(obj, 'count');
+
+        assert(response.breakpoints[0].verified);
+        assert(typeof Object.getOwnPropertyDescriptor(obj, 'count').set === 'function');
+        obj.count = 2;
+        assert.equal(obj.count, 2);
+    });
+
+    test('restores the property with its latest value when the breakpoint is removed', async () => {
+        const obj = { count: 1 };
+        await setDataBreakpoint(obj, 'count');
+        obj.count = 3;
+
+        await dataBreakpoints.setDataBreakpoints({ breakpoints: [] });
+        assert.deepEqual(Object.getOwnPropertyDescriptor(obj, 'count'), { value: 3, writable: true, enumerable: true, configurable: true });
+    });
+
+    test('takes the ids from the ids of the other breakpoints', async () => {
+        const otherBreakpointId = breakpoints.createBreakpointId();
+        const response = await setDataBreakpoint({ count: 1 }, 'count');
+
+        assert(response.breakpoints[0].id > 0);
+        assert.notEqual(response.breakpoints[0].id, otherBreakpointId);
+    });
+
+    test('fails on properties that are not configurable', async () => {
+        const obj = {};
+        Object.defineProperty(obj, 'frozen', { value: 1, configurable: false });
+        const response = await setDataBreakpoint(obj, 'frozen');
+
+        assert(!response.breakpoints[0].verified);
+    });
+
+    test('recognizes the accessors of the breakpoints', async () => {
+        await setDataBreakpoint({ count: 1 }, 'count');
+        assert(dataBreakpoints.isDataBreakpointHook(<Crdp.Debugger.CallFrame>{ functionName: '__vscodeDataBreakpointHook' }));
+        assert(!dataBreakpoints.isDataBreakpointHook(<Crdp.Debugger.CallFrame>{ functionName: 'render' }));
+    });
+});
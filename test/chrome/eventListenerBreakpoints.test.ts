@@ -0,0 +1,69 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { Protocol as Crdp } from 'devtools-protocol';
+import * as assert from 'assert';
+
+import { EventListenerBreakpoints } from '../../src/chrome/eventListenerBreakpoints';
+import { RuntimeCapabilities } from '../../src/chrome/runtimeCapabilities';
+
+suite('EventListenerBreakpoints', () => {
+    let calls: string[];
+    let eventListenerBreakpoints: EventListenerBreakpoints;
+
+    setup(() => {
+        calls = [];
+        const recordCall = (method: string) => (params: any) => {
+            calls.push(`${method} ${params.eventName}${params.targetName ? ' ' + params.targetName : ''}`);
+            return Promise.resolve();
+        };
+        const api = {
+            DOMDebugger: {
+                setEventListenerBreakpoint: recordCall('setEventListenerBreakpoint'),
+                removeEventListenerBreakpoint: recordCall('removeEventListenerBreakpoint'),
+                setInstrumentationBreakpoint: recordCall('setInstrumentationBreakpoint'),
+                removeInstrumentationBreakpoint: recordCall('removeInstrumentationBreakpoint')
+            }
+        };
+
+        eventListenerBreakpoints = new EventListenerBreakpoints(<any>{ api }, new RuntimeCapabilities());
+    });
+
+    function enabledIds(): string[] {
+        const ids: string[] = [];
+        eventListenerBreakpoints.getEventListenerBreakpoints().categories
+            .forEach(category => category.breakpoints.filter(bp => bp.enabled).forEach(bp => ids.push(bp.id)));
+        return ids;
+    }
+
+    test('sets listener and instrumentation breakpoints', async () => {
+        await eventListenerBreakpoints.setEventListenerBreakpoints({ ids: ['mouse.click', 'timer.setTimeout', 'xhr.load'], enabled: true });
+
+        assert.deepEqual(calls, [
+            'setEventListenerBreakpoint click',
+            'setInstrumentationBreakpoint setTimeout',
+            'setEventListenerBreakpoint load xmlhttprequest'
+        ]);
+        assert.deepEqual(enabledIds(), ['mouse.click', 'timer.setTimeout', 'xhr.load']);
+    });
+
+    test('toggles all the breakpoints of a category', async () => {
+        await eventListenerBreakpoints.setEventListenerBreakpoints({ ids: ['keyboard.keydown'], enabled: true });
+        await eventListenerBreakpoints.setEventListenerBreakpoints({ ids: ['keyboard'], enabled: true });
+        assert.deepEqual(enabledIds(), ['keyboard.keydown', 'keyboard.keyup', 'keyboard.keypress', 'keyboard.input']);
+
+        calls = [];
+        await eventListenerBreakpoints.setEventListenerBreakpoints({ ids: ['keyboard'], enabled: false });
+        assert.equal(calls.length, 4);
+        assert.deepEqual(enabledIds(), []);
+    });
+
+    test('finds the breakpoint that caused a pause', async () => {
+        await eventListenerBreakpoints.setEventListenerBreakpoints({ ids: ['mouse.click'], enabled: true });
+
+        const pausedOn = (data: any) => eventListenerBreakpoints.getPausedBreakpointTitle(<Crdp.Debugger.PausedEvent>{ reason: 'EventListener', data, callFrames: [] });
+        assert.equal(pausedOn({ eventName: 'listener:click', targetName: '*' }), 'click');
+        assert.equal(pausedOn({ eventName: 'instrumentation:scriptFirstStatement' }), undefined);
+    });
+});
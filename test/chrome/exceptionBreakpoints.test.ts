@@ -0,0 +1,88 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { Protocol as Crdp } from 'devtools-protocol';
+import * as assert from 'assert';
+
+import { ExceptionBreakpoints } from '../../src/chrome/exceptionBreakpoints';
+import { LocalRuntime } from '../mocks/localRuntime';
+
+suite('ExceptionBreakpoints', () => {
+    let runtime: LocalRuntime;
+    let exceptionBreakpoints: ExceptionBreakpoints;
+
+    // The frames whose callFrameId starts with 'library' are in skipped code
+    const isInSkippedCode = (callFrame: Crdp.Debugger.CallFrame) => Promise.resolve(callFrame.callFrameId.startsWith('library'));
+
+    setup(() => {
+        runtime = new LocalRuntime();
+        exceptionBreakpoints = new ExceptionBreakpoints();
+    });
+
+    function pausedOnException(error: Error, uncaught = false, callFrameIds = ['frame0']): Crdp.Debugger.PausedEvent {
+        return <Crdp.Debugger.PausedEvent>{
+            reason: 'exception',
+            data: { ...runtime.remoteObject(error), className: error.constructor.name, description: `${error.name}: ${error.message}`, uncaught },
+            callFrames: callFrameIds.map(callFrameId => ({ callFrameId }))
+        };
+    }
+
+    function abortError(): Error {
+        const error = new Error('The user aborted a request');
+        error.name = 'AbortError';
+        return error;
+    }
+
+    test('needs the runtime to pause on all exceptions when an exception option always breaks', () => {
+        const state = exceptionBreakpoints.setExceptionBreakpoints({ filters: ['uncaught'], exceptionOptions: [{ breakMode: 'always', path: [{ names: ['TypeError'] }] }] });
+        assert.equal(state, 'all');
+    });
+
+    test('pauses only when the condition of the filter is true', async () => {
+        exceptionBreakpoints.setExceptionBreakpoints({ filters: [], filterOptions: [{ filterId: 'all', condition: `error.name !== 'AbortError'` }] });
+
+        assert(await exceptionBreakpoints.shouldPauseOnException(pausedOnException(new TypeError('x is undefined')), runtime.api, isInSkippedCode));
+        assert(!await exceptionBreakpoints.shouldPauseOnException(pausedOnException(abortError()), runtime.api, isInSkippedCode));
+    });
+
+    test('releases the condition function after it is called', async () => {
+        exceptionBreakpoints.setExceptionBreakpoints({ filters: [], filterOptions: [{ filterId: 'all', condition: `error.name !== 'AbortError'` }] });
+        const notification = pausedOnException(abortError());
+        const objectCount = runtime.objectCount;
+
+        await exceptionBreakpoints.shouldPauseOnException(notification, runtime.api, isInSkippedCode);
+        assert.equal(runtime.objectCount, objectCount);
+    });
+
+    test('pauses when the condition fails to evaluate', async () => {
+        exceptionBreakpoints.setExceptionBreakpoints({ filters: [], filterOptions: [{ filterId: 'all', condition: 'error.name ===' }] });
+
+        assert(await exceptionBreakpoints.shouldPauseOnException(pausedOnException(abortError()), runtime.api, isInSkippedCode));
+    });
+
+    test('applies the exception options that match the name of the exception', async () => {
+        exceptionBreakpoints.setExceptionBreakpoints({ filters: ['all'], exceptionOptions: [{ breakMode: 'never', path: [{ names: ['AbortError'] }] }] });
+
+        assert(!await exceptionBreakpoints.shouldPauseOnException(pausedOnException(abortError()), runtime.api, isInSkippedCode));
+        assert(await exceptionBreakpoints.shouldPauseOnException(pausedOnException(new TypeError('x is undefined')), runtime.api, isInSkippedCode));
+    });
+
+    test('does not pause on caught exceptions that only the exception options made the runtime pause on', async () => {
+        exceptionBreakpoints.setExceptionBreakpoints({ filters: ['uncaught'], exceptionOptions: [{ breakMode: 'always', path: [{ names: ['TypeError'] }] }] });
+
+        assert(await exceptionBreakpoints.shouldPauseOnException(pausedOnException(new TypeError('x is undefined')), runtime.api, isInSkippedCode));
+        assert(!await exceptionBreakpoints.shouldPauseOnException(pausedOnException(new RangeError('Invalid array length')), runtime.api, isInSkippedCode));
+        assert(await exceptionBreakpoints.shouldPauseOnException(pausedOnException(new RangeError('Invalid array length'), /*uncaught=*/true), runtime.api, isInSkippedCode));
+    });
+
+    test('resumes exceptions thrown and caught in skipped code when only my code is enabled', async () => {
+        exceptionBreakpoints.setExceptionBreakpoints({ filters: ['userCode'] });
+        const error = new Error('feature detection');
+
+        assert(!await exceptionBreakpoints.shouldPauseOnException(pausedOnException(error, false, ['library0', 'library1']), runtime.api, isInSkippedCode));
+        assert(await exceptionBreakpoints.shouldPauseOnException(pausedOnException(error, false, ['library0', 'app0']), runtime.api, isInSkippedCode));
+        assert(await exceptionBreakpoints.shouldPauseOnException(pausedOnException(error, false, ['app0', 'library0']), runtime.api, isInSkippedCode));
+        assert(await exceptionBreakpoints.shouldPauseOnException(pausedOnException(error, true, ['library0', 'library1']), runtime.api, isInSkippedCode));
+    });
+});
@@ -0,0 +1,47 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import * as assert from 'assert';
+
+import { InternalSourceBreakpoint } from '../../src/chrome/internalSourceBreakpoint';
+import { LocalRuntime } from '../mocks/localRuntime';
+
+suite('InternalSourceBreakpoint', () => {
+    // Evaluates the condition the way the runtime does, with a console that records the calls. The condition can use the parameter x
+    function evaluateCondition(breakpoint: InternalSourceBreakpoint, x: any): { value: any, logs: any[][], errors: any[][] } {
+        const logs: any[][] = [];
+        const errors: any[][] = [];
+        const console = {
+            log: (...args: any[]) => { logs.push(args); },
+            error: (...args: any[]) => { errors.push(args); }
+        };
+
+        return { value: new LocalRuntime().evaluate(breakpoint.condition, { console, x }), logs, errors };
+    }
+
+    test('keeps the value of the condition', () => {
+        const breakpoint = new InternalSourceBreakpoint({ line: 1, condition: 'x > 1' });
+
+        assert.equal(breakpoint.expression, 'x > 1');
+        assert.equal(evaluateCondition(breakpoint, 2).value, true);
+        assert.equal(evaluateCondition(breakpoint, 0).value, false);
+    });
+
+    test('reports the exceptions thrown by the condition', () => {
+        const breakpoint = new InternalSourceBreakpoint({ line: 1, condition: 'x.y.z' });
+
+        const result = evaluateCondition(breakpoint, {});
+        assert.equal(result.value, false);
+        assert.equal(result.errors.length, 1);
+        assert(result.errors[0][1] instanceof TypeError);
+    });
+
+    test('logs the message of a logpoint without pausing', () => {
+        const breakpoint = new InternalSourceBreakpoint({ line: 1, logMessage: 'x is {x}' });
+
+        const result = evaluateCondition(breakpoint, 3);
+        assert(!result.value);
+        assert.deepEqual(result.logs, [['x is %O', 3]]);
+    });
+});
@@ -0,0 +1,109 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { Protocol as Crdp } from 'devtools-protocol';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { LogpointRateLimiter, LogpointOutputFile, ILogpointOutputEntry } from '../../src/chrome/logpointOutput';
+
+suite('LogpointOutput', () => {
+    const CALL_FRAME = <Crdp.Runtime.CallFrame>{ functionName: 'render', scriptId: '1', url: '/project/app.js', lineNumber: 5, columnNumber: 6 };
+
+    suite('LogpointRateLimiter', () => {
+        let reported: { breakpointId: number, count: number }[];
+        let rateLimiter: LogpointRateLimiter;
+
+        setup(() => {
+            reported = [];
+            rateLimiter = new LogpointRateLimiter((breakpointId, count) => reported.push({ breakpointId, count }));
+            rateLimiter.maxMessagesPerSecond = 2;
+        });
+
+        teardown(() => {
+            rateLimiter.flush();
+        });
+
+        test('limits the messages of each logpoint per second', () => {
+            assert.deepEqual([0, 10, 20, 30].map(now => rateLimiter.shouldShow(1, CALL_FRAME, now)), [true, true, false, false]);
+            assert(rateLimiter.shouldShow(2, CALL_FRAME, 40));
+            assert.deepEqual(reported, []);
+
+            rateLimiter.flush();
+            assert.deepEqual(reported, [{ breakpointId: 1, count: 2 }]);
+        });
+
+        test('reports the suppressed messages when the next second starts', () => {
+            assert.deepEqual([0, 10, 20].map(now => rateLimiter.shouldShow(1, CALL_FRAME, now)), [true, true, false]);
+
+            assert(rateLimiter.shouldShow(1, CALL_FRAME, 1000));
+            assert.deepEqual(reported, [{ breakpointId: 1, count: 1 }]);
+        });
+
+        test('shows all the messages when the limit is 0', () => {
+            rateLimiter.maxMessagesPerSecond = 0;
+            assert([0, 1, 2, 3].every(now => rateLimiter.shouldShow(1, CALL_FRAME, now)));
+        });
+    });
+
+    suite('LogpointOutputFile', () => {
+        const ENTRIES: ILogpointOutputEntry[] = [1, 2, 3].map(value => (
+            { timestamp: 1000 + value, breakpointId: 1, source: { path: '/project/app.ts', line: 12, column: 5 }, values: [value, 'Object'] }));
+
+        let filePath: string;
+        let maxQueuedEntries: number;
+
+        setup(() => {
+            filePath = path.join(os.tmpdir(), `logpointOutput-${process.pid}.jsonl`);
+            maxQueuedEntries = LogpointOutputFile.MAX_QUEUED_ENTRIES;
+        });
+
+        teardown(() => {
+            LogpointOutputFile.MAX_QUEUED_ENTRIES = maxQueuedEntries;
+            if (fs.existsSync(filePath)) {
+                fs.unlinkSync(filePath);
+            }
+        });
+
+        function readEntries(): ILogpointOutputEntry[] {
+            const lines = fs.readFileSync(filePath, 'utf8').split('\n');
+            assert.equal(lines.pop(), '');
+            return lines.map(line => JSON.parse(line));
+        }
+
+        test('writes one entry per line', async () => {
+            const outputFile = new LogpointOutputFile(filePath);
+            ENTRIES.forEach(entry => outputFile.write(entry));
+            await outputFile.close();
+
+            assert.deepEqual(readEntries(), ENTRIES);
+        });
+
+        test('writes the entries in order when their location is mapped later', async () => {
+            let resolveFirstEntry: (entry: ILogpointOutputEntry) => void;
+            const outputFile = new LogpointOutputFile(filePath);
+            outputFile.write(new Promise<ILogpointOutputEntry>(resolve => resolveFirstEntry = resolve));
+            outputFile.write(ENTRIES[1]);
+            resolveFirstEntry(ENTRIES[0]);
+            await outputFile.close();
+
+            assert.deepEqual(readEntries(), ENTRIES.slice(0, 2));
+        });
+
+        test('drops the entries over the queue limit', async () => {
+            LogpointOutputFile.MAX_QUEUED_ENTRIES = 2;
+            let resolveFirstEntry: (entry: ILogpointOutputEntry) => void;
+            const outputFile = new LogpointOutputFile(filePath);
+            outputFile.write(new Promise<ILogpointOutputEntry>(resolve => resolveFirstEntry = resolve));
+            outputFile.write(ENTRIES[1]);
+            outputFile.write(ENTRIES[2]);
+            resolveFirstEntry(ENTRIES[0]);
+            await outputFile.close();
+
+            assert.deepEqual(readEntries(), ENTRIES.slice(0, 2));
+        });
+    });
+});
@@ -0,0 +1,52 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { PassThrough } from 'stream';
+import * as WebSocket from 'ws';
+import * as assert from 'assert';
+
+import { PipeSocket } from '../../src/chrome/pipeSocket';
+
+suite('PipeSocket', () => {
+    let writable: PassThrough;
+    let readable: PassThrough;
+    let socket: PipeSocket;
+
+    setup(async () => {
+        writable = new PassThrough();
+        readable = new PassThrough();
+        socket = new PipeSocket({ writable, readable });
+        await new Promise(resolve => socket.once('open', resolve));
+    });
+
+    test('splits the incoming data into NUL-delimited messages', async () => {
+        const messages: string[] = [];
+        socket.on('message', message => messages.push(message));
+
+        readable.write('{"id":1}\u0000{"id"');
+        readable.write(':2}\u0000');
+        await new Promise(resolve => setImmediate(resolve));
+
+        assert.deepEqual(messages, ['{"id":1}', '{"id":2}']);
+    });
+
+    test('terminates each sent message with a NUL', () => {
+        socket.send('{"id":1,"method":"Debugger.enable"}');
+
+        assert.equal(writable.read().toString(), '{"id":1,"method":"Debugger.enable"}\u0000');
+    });
+
+    test('closes once when the target closes the pipe', async () => {
+        let closeCount = 0;
+        socket.on('close', () => closeCount++);
+
+        readable.end();
+        readable.resume();
+        await new Promise(resolve => setImmediate(resolve));
+        socket.close();
+
+        assert.equal(closeCount, 1);
+        assert.equal(socket.readyState, WebSocket.CLOSED);
+    });
+});
@@ -0,0 +1,70 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import * as assert from 'assert';
+
+import { RuntimeCapabilities, IRuntimeQuirkProfile } from '../../src/chrome/runtimeCapabilities';
+import { TargetVersions, Version } from '../../src/chrome/chromeTargetDiscoveryStrategy';
+
+suite('RuntimeCapabilities', () => {
+    function getApi(domainNames: string[], product?: string): any {
+        return {
+            Schema: { getDomains: () => Promise.resolve({ domains: domainNames.map(name => ({ name, version: '1.3' })) }) },
+            Browser: {
+                getVersion: () => product ?
+                    Promise.resolve({ product, protocolVersion: '1.3', revision: '', userAgent: '', jsVersion: '' }) :
+                    Promise.reject(new Error(`'Browser.getVersion' wasn't found`))
+            }
+        };
+    }
+
+    test('detects the features from the domains and the version of the runtime', async () => {
+        const capabilities = new RuntimeCapabilities();
+        await capabilities.detect(getApi(['Debugger', 'Runtime', 'DOMDebugger'], 'Chrome/76.0.3809.100'), undefined);
+
+        assert.equal(capabilities.runtime.product, 'Chrome/76.0.3809.100');
+        assert(capabilities.runtime.domains.has('DOMDebugger'));
+        assert(capabilities.isSupported('instrumentationBreakpoints'));
+        assert(!capabilities.isSupported('instrumentationPauseExtraEvent'));
+        assert(capabilities.isSupported('throwOnSideEffect'));
+    });
+
+    test('uses the versions of the target when the runtime does not support Browser.getVersion', async () => {
+        const capabilities = new RuntimeCapabilities();
+        await capabilities.detect(getApi(['Debugger', 'Runtime']), Promise.resolve(new TargetVersions(new Version(1, 3), new Version(68, 0))));
+
+        assert(capabilities.runtime.browserVersion.isAtLeastVersion(68, 0));
+        assert(capabilities.isSupported('instrumentationPauseExtraEvent'));
+        assert(capabilities.isSupported('throwOnSideEffect'));
+        assert(!capabilities.isSupported('instrumentationBreakpoints'));
+    });
+
+    test('records the results of probes', () => {
+        const capabilities = new RuntimeCapabilities();
+        assert(!capabilities.wasProbed('columnBreakpoints'));
+        assert(!capabilities.isSupported('columnBreakpoints'));
+
+        capabilities.recordProbeResult('columnBreakpoints', true);
+        assert(capabilities.wasProbed('columnBreakpoints'));
+        assert(capabilities.isSupported('columnBreakpoints'));
+    });
+
+    test('quirk profiles that apply to the runtime override the detected features', async () => {
+        const embeddedV8Profile: IRuntimeQuirkProfile = {
+            name: 'Embedded V8',
+            appliesTo: runtime => runtime.product.startsWith('EmbeddedV8/'),
+            features: { blackboxPatterns: false, columnBreakpoints: false }
+        };
+
+        const capabilities = new RuntimeCapabilities([embeddedV8Profile]);
+        capabilities.recordProbeResult('columnBreakpoints', true);
+        await capabilities.detect(getApi(['Debugger', 'Runtime'], 'Chrome/76.0.3809.100'), undefined);
+        assert(capabilities.isSupported('blackboxPatterns'));
+        assert(capabilities.isSupported('columnBreakpoints'));
+
+        await capabilities.detect(getApi(['Debugger', 'Runtime'], 'EmbeddedV8/7.6'), undefined);
+        assert(!capabilities.isSupported('blackboxPatterns'));
+        assert(!capabilities.isSupported('columnBreakpoints'));
+    });
+});
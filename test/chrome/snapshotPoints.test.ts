@@ -0,0 +1,125 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { Protocol as Crdp } from 'devtools-protocol';
+import { DebugProtocol } from 'vscode-debugprotocol';
+import * as assert from 'assert';
+
+import { SnapshotPoints } from '../../src/chrome/snapshotPoints';
+import { VariablesManager } from '../../src/chrome/variablesManager';
+import { LocalRuntime } from '../mocks/localRuntime';
+
+suite('SnapshotPoints', () => {
+    const STACK_FRAMES = [<DebugProtocol.StackFrame>{ id: 1, name: 'save', source: { path: '/project/editor.ts' }, line: 12, column: 5 }];
+
+    let runtime: LocalRuntime;
+    let variablesManager: VariablesManager;
+    let snapshotPoints: SnapshotPoints;
+
+    setup(() => {
+        runtime = new LocalRuntime();
+        variablesManager = new VariablesManager(runtime.connection);
+        snapshotPoints = new SnapshotPoints(runtime.connection, variablesManager);
+    });
+
+    function callFrame(thisValue: any, locals: any): Crdp.Debugger.CallFrame {
+        const scopeObject = runtime.remoteObject(locals);
+        return <Crdp.Debugger.CallFrame>{
+            this: runtime.remoteObject(thisValue),
+            scopeChain: [{ type: 'local', object: scopeObject }, { type: 'global', object: runtime.remoteObject({ window: {} }) }]
+        };
+    }
+
+    async function getVariables(variablesReference: number): Promise<{ [name: string]: string }> {
+        const response = await variablesManager.getVariables({ variablesReference });
+        const values: { [name: string]: string } = {};
+        response.variables.forEach(variable => values[variable.name] = variable.value);
+        return values;
+    }
+
+    test('captures this and the local variables', async () => {
+        await snapshotPoints.capture([3], callFrame({ id: 7 }, { count: 2, name: 'draft', document: { title: 'Notes' } }), STACK_FRAMES);
+
+        const snapshots = snapshotPoints.getSnapshots().snapshots;
+        assert.equal(snapshots.length, 1);
+        assert.equal(snapshots[0].breakpointId, 3);
+        assert.deepEqual(snapshots[0].stackFrames, [{ name: 'save', source: { path: '/project/editor.ts' }, line: 12, column: 5 }]);
+
+        const variablesReference = snapshots[0].variablesReference;
+        assert.deepEqual(Object.keys(await getVariables(variablesReference)), ['this', 'count', 'name', 'document']);
+
+        const variables = (await variablesManager.getVariables({ variablesReference })).variables;
+        assert.deepEqual(await getVariables(variables.find(variable => variable.name === 'document').variablesReference), { title: '"Notes"' });
+    });
+
+    test('limits the depth of the values and stops at cycles', async () => {
+        const node: any = { child: { child: { child: { child: {} } } } };
+        node.self = node;
+        await snapshotPoints.capture([3], callFrame(undefined, { node }), STACK_FRAMES);
+
+        let variablesReference = snapshotPoints.getSnapshots().snapshots[0].variablesReference;
+        const names: string[] = [];
+        while (variablesReference) {
+            const variables = (await variablesManager.getVariables({ variablesReference })).variables;
+            const self = variables.find(v => v.name === 'self');
+            if (self) {
+                assert.equal(self.variablesReference, 0);
+            }
+
+            const variable = variables.find(v => v.name === 'node' || v.name === 'child');
+            names.push(variable.name);
+            variablesReference = variable.variablesReference;
+        }
+
+        assert.deepEqual(names, ['node', 'child', 'child']);
+    });
+
+    test('copies the values when they are captured', async () => {
+        const locals = { items: ['a'] };
+        await snapshotPoints.capture([3], callFrame(undefined, locals), STACK_FRAMES);
+        locals.items.push('b');
+
+        const variables = (await variablesManager.getVariables({ variablesReference: snapshotPoints.getSnapshots().snapshots[0].variablesReference })).variables;
+        assert.equal(variables[0].value, 'Array(1)');
+    });
+
+    test('describes objects by their constructor without running getters', async () => {
+        class Note { }
+        let getterRan = false;
+        const note = new Note();
+        Object.defineProperty(note, 'constructor', { get: () => { getterRan = true; return Note; } });
+
+        await snapshotPoints.capture([3], callFrame(undefined, { note, plain: Object.create(null) }), STACK_FRAMES);
+
+        const values = await getVariables(snapshotPoints.getSnapshots().snapshots[0].variablesReference);
+        assert.deepEqual(values, { note: 'Note', plain: 'Object' });
+        assert(!getterRan);
+    });
+
+    test('does not read the properties of proxies', async () => {
+        const thisObject = { subtype: 'proxy', ...runtime.remoteObject({}), description: 'Proxy' };
+        await snapshotPoints.capture([3], <Crdp.Debugger.CallFrame>{ this: thisObject, scopeChain: [] }, STACK_FRAMES);
+
+        const variables = (await variablesManager.getVariables({ variablesReference: snapshotPoints.getSnapshots().snapshots[0].variablesReference })).variables;
+        assert.deepEqual(variables.map(({ name, value, variablesReference }) => ({ name, value, variablesReference })),
+            [{ name: 'this', value: 'Proxy', variablesReference: 0 }]);
+    });
+
+    test('creates the handles once and releases them when the snapshot is evicted', async () => {
+        await snapshotPoints.capture([3], callFrame(undefined, { document: { title: 'Notes' } }), STACK_FRAMES);
+        const variablesReference = snapshotPoints.getSnapshots().snapshots[0].variablesReference;
+        assert.equal(snapshotPoints.getSnapshots().snapshots[0].variablesReference, variablesReference);
+
+        const variables = (await variablesManager.getVariables({ variablesReference })).variables;
+        const documentReference = variables.find(variable => variable.name === 'document').variablesReference;
+        assert.deepEqual(await getVariables(documentReference), { title: '"Notes"' });
+
+        const breakpointIds = Array.from({ length: 100 }, (_, i) => i + 4);
+        await snapshotPoints.capture(breakpointIds, callFrame(undefined, { count: 1 }), STACK_FRAMES);
+
+        assert.equal(snapshotPoints.getSnapshots().snapshots[0].breakpointId, 4);
+        assert.equal(await variablesManager.getVariables({ variablesReference }), undefined);
+        assert.equal(await variablesManager.getVariables({ variablesReference: documentReference }), undefined);
+    });
+});
@@ -0,0 +1,96 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { Protocol as Crdp } from 'devtools-protocol';
+import * as assert from 'assert';
+
+import { StepInTargets } from '../../src/chrome/stepInTargets';
+
+suite('StepInTargets', () => {
+    const SCRIPT_ID = '1';
+
+    // The runtime reports the calls of `render(parse(load(x)));` at the callee names
+    const SCRIPT_SOURCE = 'function f(x) {\n    render(parse(load(x)));\n}';
+    const CALL_COLUMNS = [4, 11, 17];
+
+    let authoredNames: Map<number, string>;
+    let stepInTargets: StepInTargets;
+
+    setup(() => {
+        authoredNames = new Map<number, string>();
+        const api = {
+            Debugger: {
+                getScriptSource: () => Promise.resolve({ scriptSource: SCRIPT_SOURCE })
+            }
+        };
+        const transformers = {
+            pathTransformer: { getClientPathFromTargetPath: (targetPath: string) => targetPath },
+            sourceMapTransformer: {
+                mapToAuthored: (_path: string, line: number, column: number) => Promise.resolve(authoredNames.has(column) ? { line, column, name: authoredNames.get(column) } : null)
+            }
+        };
+        const breakpoints = {
+            getCallLocations: () => Promise.resolve(CALL_COLUMNS.map(columnNumber => ({ scriptId: SCRIPT_ID, lineNumber: 1, columnNumber, type: 'call' })))
+        };
+        const scripts = {
+            getScriptById: () => ({ scriptId: SCRIPT_ID, url: 'http://localhost/app.js' })
+        };
+
+        stepInTargets = new StepInTargets(<any>{ api }, <any>transformers, <any>breakpoints, <any>scripts);
+    });
+
+    function location(lineNumber: number, columnNumber: number): Crdp.Debugger.Location {
+        return { scriptId: SCRIPT_ID, lineNumber, columnNumber };
+    }
+
+    function paused(...locations: Crdp.Debugger.Location[]): Crdp.Debugger.PausedEvent {
+        return <Crdp.Debugger.PausedEvent>{ reason: 'other', callFrames: locations.map(l => ({ location: l })) };
+    }
+
+    function getTargets() {
+        return stepInTargets.getStepInTargets(<Crdp.Debugger.CallFrame>{ location: location(1, 4) });
+    }
+
+    test('names the targets with the names in the script', async () => {
+        const targets = await getTargets();
+        assert.deepEqual(targets.map(target => target.label), ['render', 'parse', 'load']);
+    });
+
+    test('prefers the names from the source map', async () => {
+        authoredNames.set(11, 'parseDocument');
+
+        const targets = await getTargets();
+        assert.deepEqual(targets.map(target => target.label), ['render', 'parseDocument', 'load']);
+    });
+
+    test('steps in and out of the calls that run before the chosen one', async () => {
+        const targets = await getTargets();
+        const callerFrame = location(0, 0);
+        stepInTargets.setPendingTarget(targets[0].id, 2);
+
+        // Entered load, then parse, which run first because they compute the arguments of render
+        assert.equal(stepInTargets.onPaused(paused(location(5, 0), location(1, 17), callerFrame)), 'stepOut');
+        assert.equal(stepInTargets.onPaused(paused(location(1, 11), callerFrame)), 'stepInto');
+        assert.equal(stepInTargets.onPaused(paused(location(8, 0), location(1, 11), callerFrame)), 'stepOut');
+        assert.equal(stepInTargets.onPaused(paused(location(1, 4), callerFrame)), 'stepInto');
+        assert.equal(stepInTargets.onPaused(paused(location(12, 0), location(1, 4), callerFrame)), undefined);
+    });
+
+    test('stops stepping when the line is left without entering the chosen call', async () => {
+        const targets = await getTargets();
+        stepInTargets.setPendingTarget(targets[1].id, 1);
+
+        assert.equal(stepInTargets.onPaused(paused(location(2, 0))), undefined);
+        assert.equal(stepInTargets.onPaused(paused(location(1, 4))), undefined);
+    });
+
+    test('stops stepping on a breakpoint', async () => {
+        const targets = await getTargets();
+        stepInTargets.setPendingTarget(targets[0].id, 1);
+
+        const breakpointPause = paused(location(5, 0), location(1, 17));
+        breakpointPause.hitBreakpoints = ['bp1'];
+        assert.equal(stepInTargets.onPaused(breakpointPause), undefined);
+    });
+});
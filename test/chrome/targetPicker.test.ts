@@ -0,0 +1,63 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { DebugProtocol } from 'vscode-debugprotocol';
+import * as assert from 'assert';
+
+import { ClientTargetPicker, IPickTargetRequestArgs } from '../../src/chrome/targetPicker';
+import { ChromeDebugSession } from '../../src/chrome/chromeDebugSession';
+import { ITarget } from '../../src/chrome/chromeConnection';
+import * as testUtils from '../testUtils';
+
+function target(id: string): ITarget {
+    return <ITarget>{ id, title: id, url: `http://localhost/${id}`, type: 'page', description: '', devtoolsFrontendUrl: '', webSocketDebuggerUrl: `ws://localhost:9222/${id}` };
+}
+
+suite('ClientTargetPicker', () => {
+    const targets = [target('first'), target('second'), target('third')];
+
+    function sessionResponding(response: Partial<DebugProtocol.Response>, requests: IPickTargetRequestArgs[] = []): ChromeDebugSession {
+        return <ChromeDebugSession><any>{
+            sendRequest: (command: string, args: IPickTargetRequestArgs, timeout: number, cb: (response: Partial<DebugProtocol.Response>) => void) => {
+                assert.equal(command, 'pickTarget');
+                requests.push(args);
+                cb(response);
+            }
+        };
+    }
+
+    test('asks the client to pick one of the targets', async () => {
+        const requests: IPickTargetRequestArgs[] = [];
+        const picker = new ClientTargetPicker(sessionResponding({ success: true, body: { targetId: 'second' } }, requests), /*clientSupportsPickTarget=*/true);
+
+        const pickedTarget = await picker.pickTarget(targets);
+        assert.equal(pickedTarget, targets[1]);
+        assert.deepEqual(requests[0].targets.map(candidate => candidate.url), targets.map(candidate => candidate.url));
+    });
+
+    test('fails when the user cancels', () => {
+        const picker = new ClientTargetPicker(sessionResponding({ success: true, body: {} }), /*clientSupportsPickTarget=*/true);
+
+        return testUtils.assertPromiseRejected(picker.pickTarget(targets));
+    });
+
+    test('uses the fallback when the client fails the request', async () => {
+        const picker = new ClientTargetPicker(sessionResponding({ success: false, message: 'timeout' }), /*clientSupportsPickTarget=*/true, 'last');
+
+        assert.equal(await picker.pickTarget(targets), targets[2]);
+    });
+
+    test(`uses the fallback when the client doesn't support the request`, async () => {
+        const picker = new ClientTargetPicker(sessionResponding({ success: true, body: { targetId: 'second' } }), /*clientSupportsPickTarget=*/false);
+
+        assert.equal(await picker.pickTarget(targets), targets[0]);
+        await testUtils.assertPromiseRejected(new ClientTargetPicker(undefined, /*clientSupportsPickTarget=*/false, 'fail').pickTarget(targets));
+    });
+
+    test('the newest fallback picks the target that was opened most recently, which Chrome lists first', async () => {
+        const picker = new ClientTargetPicker(undefined, /*clientSupportsPickTarget=*/false, 'newest');
+
+        assert.equal(await picker.pickTarget(targets), targets[0]);
+    });
+});
@@ -0,0 +1,68 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { DebugProtocol } from 'vscode-debugprotocol';
+import * as assert from 'assert';
+
+import { TriggerBreakpoints } from '../../src/chrome/triggerBreakpoints';
+import { ISourceBreakpoint } from '../../src/debugAdapterInterfaces';
+
+suite('TriggerBreakpoints', () => {
+    const DOCUMENT_PATH = '/project/document.js';
+    const EDITOR_PATH = '/project/editor.js';
+
+    let triggers: TriggerBreakpoints;
+
+    setup(() => {
+        triggers = new TriggerBreakpoints();
+    });
+
+    function setBreakpoints(clientPath: string, breakpoints: ISourceBreakpoint[], firstId: number): void {
+        const response = breakpoints.map((_, i) => <DebugProtocol.Breakpoint>{ id: firstId + i, verified: true });
+        triggers.setBreakpoints(clientPath, breakpoints, response);
+    }
+
+    test('arms the breakpoints triggered by a breakpoint that was hit', () => {
+        setBreakpoints(DOCUMENT_PATH, [{ line: 10 }], 1);
+        setBreakpoints(EDITOR_PATH, [{ line: 20, triggeredBy: { path: DOCUMENT_PATH, line: 10 } }, { line: 30 }], 2);
+        assert(triggers.isDormant(2));
+        assert(!triggers.isDormant(3));
+
+        assert.deepEqual(triggers.onHit(3), []);
+        assert(triggers.isDormant(2));
+
+        assert.deepEqual(triggers.onHit(1), [2]);
+        assert(!triggers.isDormant(2));
+        assert.deepEqual(triggers.onHit(1), []);
+    });
+
+    test('a dormant breakpoint does not arm the breakpoints that it triggers', () => {
+        setBreakpoints(DOCUMENT_PATH, [
+            { line: 10 },
+            { line: 11, triggeredBy: { path: DOCUMENT_PATH, line: 10 } },
+            { line: 12, triggeredBy: { path: DOCUMENT_PATH, line: 11 } }
+        ], 1);
+
+        assert.deepEqual(triggers.onHit(2), []);
+        assert.deepEqual(triggers.onHit(1), [2]);
+        assert.deepEqual(triggers.onHit(2), [3]);
+    });
+
+    test('the dependency holds when the trigger is set again', () => {
+        setBreakpoints(DOCUMENT_PATH, [{ line: 10 }], 1);
+        setBreakpoints(EDITOR_PATH, [{ line: 20, triggeredBy: { path: DOCUMENT_PATH, line: 10 } }], 2);
+        setBreakpoints(DOCUMENT_PATH, [{ line: 5 }, { line: 10 }], 3);
+
+        assert.deepEqual(triggers.onHit(1), []);
+        assert.deepEqual(triggers.onHit(4), [2]);
+    });
+
+    test('reset makes the breakpoints dormant again', () => {
+        setBreakpoints(DOCUMENT_PATH, [{ line: 10 }, { line: 11, triggeredBy: { path: DOCUMENT_PATH, line: 10 } }], 1);
+        triggers.onHit(1);
+
+        assert.deepEqual(triggers.reset(), [2]);
+        assert(triggers.isDormant(2));
+    });
+});
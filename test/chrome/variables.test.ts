@@ -164,6 +164,22 @@ suite('Variables', () => {
         });
     });
 
+    suite('VariableHandles', () => {
+        test('keeps the console handles after a pause until they are released', () => {
+            const handles = new Variables.VariableHandles();
+            const container = new Variables.LoggedObjects([]);
+            const consoleHandle = handles.create(container, 'repl');
+            const variablesHandle = handles.create(container);
+
+            handles.onPaused();
+            assert.equal(handles.get(consoleHandle), container);
+            assert.equal(handles.get(variablesHandle), undefined);
+
+            handles.release([consoleHandle]);
+            assert.equal(handles.get(consoleHandle), undefined);
+        });
+    });
+
     suite('getRemoteObjectPreview_primitive()', () => {
         function getPrimitiveRemoteObject(value: any, hasDescription: boolean): Crdp.Runtime.RemoteObject {
             return {
@@ -0,0 +1,82 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { Protocol as Crdp } from 'devtools-protocol';
+import * as assert from 'assert';
+
+import { XHRBreakpoints } from '../../src/chrome/xhrBreakpoints';
+import { RuntimeCapabilities } from '../../src/chrome/runtimeCapabilities';
+
+suite('XHRBreakpoints', () => {
+    let calls: string[];
+    let failingUrls: string[];
+    let runtimeCapabilities: RuntimeCapabilities;
+    let xhrBreakpoints: XHRBreakpoints;
+
+    setup(() => {
+        calls = [];
+        failingUrls = [];
+        const api = {
+            DOMDebugger: {
+                setXHRBreakpoint: (params: Crdp.DOMDebugger.SetXHRBreakpointRequest) => {
+                    calls.push('set ' + params.url);
+                    return failingUrls.indexOf(params.url) >= 0 ? Promise.reject(new Error('Target closed')) : Promise.resolve();
+                },
+                removeXHRBreakpoint: (params: Crdp.DOMDebugger.RemoveXHRBreakpointRequest) => {
+                    calls.push('remove ' + params.url);
+                    return Promise.resolve();
+                }
+            }
+        };
+
+        runtimeCapabilities = new RuntimeCapabilities();
+        xhrBreakpoints = new XHRBreakpoints(<any>{ api }, runtimeCapabilities);
+    });
+
+    test('only sets and removes the urls that changed', async () => {
+        await xhrBreakpoints.setXHRBreakpoints(['/api/users', '/api/orders']);
+        await xhrBreakpoints.setXHRBreakpoints(['/api/orders', '/api/cart']);
+
+        assert.deepEqual(calls, ['set /api/users', 'set /api/orders', 'remove /api/users', 'set /api/cart']);
+    });
+
+    test('sets all the breakpoints again when resending them', async () => {
+        await xhrBreakpoints.setXHRBreakpoints(['/api/users']);
+        calls = [];
+
+        await xhrBreakpoints.resendBreakpoints();
+        assert.deepEqual(calls, ['set /api/users']);
+    });
+
+    test('sends the breakpoints that failed to be set again', async () => {
+        failingUrls = ['/api/orders'];
+        await xhrBreakpoints.setXHRBreakpoints(['/api/users', '/api/orders']).catch(() => { });
+
+        failingUrls = [];
+        calls = [];
+        await xhrBreakpoints.resendBreakpoints();
+        assert.deepEqual(calls, ['set /api/users']);
+
+        calls = [];
+        await xhrBreakpoints.setXHRBreakpoints(['/api/users', '/api/orders']);
+        assert.deepEqual(calls, ['set /api/orders']);
+    });
+
+    test('fails when the runtime does not support XHR breakpoints', async () => {
+        runtimeCapabilities.recordProbeResult('xhrBreakpoints', false);
+
+        try {
+            await xhrBreakpoints.setXHRBreakpoints(['/api/users']);
+            assert.fail('Expected setXHRBreakpoints to fail');
+        } catch (e) {
+            assert.equal(e.id, 2037);
+        }
+    });
+
+    test('finds the url of the request that caused a pause', () => {
+        const pausedEvent = <Crdp.Debugger.PausedEvent>{ reason: 'XHR', data: { url: 'http://localhost/api/users?id=1', breakpointURL: '/api/users' }, callFrames: [] };
+        assert.equal(xhrBreakpoints.getPausedRequestUrl(pausedEvent), 'http://localhost/api/users?id=1');
+        assert.equal(xhrBreakpoints.getPausedRequestUrl(<Crdp.Debugger.PausedEvent>{ reason: 'other', callFrames: [] }), undefined);
+    });
+});
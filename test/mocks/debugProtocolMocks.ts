@@ -31,6 +31,10 @@ function getDebuggerStubs(mockEventEmitter) {
     return {
         setBreakpoint() { },
         setBreakpointByUrl() { },
+        setBreakpointOnFunctionCall() { },
+        continueToLocation() { },
+        resume() { },
+        stepInto() { },
         removeBreakpoint() { },
         enable() { },
         evaluateOnCallFrame() { },
@@ -44,6 +48,8 @@ function getRuntimeStubs(mockEventEmitter) {
     return {
         enable() { },
         evaluate() { },
+        releaseObjectGroup() { return Promise.resolve(); },
+        compileScript() { return Promise.resolve({}); },
 
         on(eventName, handler) { mockEventEmitter.on(`Runtime.${eventName}`, handler); }
     };
@@ -0,0 +1,120 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import { Protocol as Crdp } from 'devtools-protocol';
+
+import { ChromeConnection } from '../../src/chrome/chromeConnection';
+
+/**
+ * Stands in for the Runtime and Debugger domains of a target by evaluating the expressions and running the functions on local objects.
+ * The objects and functions are passed by reference, with an objectId that the tests and the code under test can use.
+ */
+export class LocalRuntime {
+    public readonly api: Crdp.ProtocolApi;
+    public readonly connection: ChromeConnection;
+
+    private _objectsById = new Map<string, any>();
+    private _objectIdsByGroup = new Map<string, string[]>();
+    private _nextObjectId = 0;
+
+    constructor() {
+        const runtime: Partial<Crdp.RuntimeApi> = {
+            callFunctionOn: params => this.callFunctionOn(params),
+            getProperties: params => this.getProperties(params),
+            releaseObject: params => this.releaseObject(params),
+            releaseObjectGroup: params => this.releaseObjectGroup(params)
+        };
+        const debuggerApi: Partial<Crdp.DebuggerApi> = {
+            // The tests don't have call frames, so the expressions are evaluated in the global scope
+            evaluateOnCallFrame: params => this.evaluateRemote(params.expression, params.returnByValue, params.objectGroup)
+        };
+
+        this.api = <Crdp.ProtocolApi>{ Runtime: runtime, Debugger: debuggerApi };
+        this.connection = <ChromeConnection>{ api: this.api };
+    }
+
+    /**
+     * Evaluates the expression like the runtime would, with the names of the scope as variables
+     */
+    public evaluate(expression: string, scope: { [name: string]: any } = {}): any {
+        const declarations = Object.keys(scope).map(name => `const ${name} = scope[${JSON.stringify(name)}];\n`).join('');
+
+        // A direct eval, so the declarations can read the scope
+        /* tslint:disable:no-eval */
+        return eval(declarations + expression);
+        /* tslint:enable:no-eval */
+    }
+
+    public remoteObject(value: any, objectGroup?: string): Crdp.Runtime.RemoteObject {
+        if ((typeof value === 'object' && value !== null) || typeof value === 'function') {
+            const objectId = 'object' + this._nextObjectId++;
+            this._objectsById.set(objectId, value);
+            if (objectGroup) {
+                this._objectIdsByGroup.set(objectGroup, [...(this._objectIdsByGroup.get(objectGroup) || []), objectId]);
+            }
+
+            return typeof value === 'function' ?
+                { type: 'function', objectId, description: 'Function' } :
+                { type: 'object', objectId, description: 'Object' };
+        }
+
+        return { type: <Crdp.Runtime.RemoteObject['type']>typeof value, value };
+    }
+
+    public getObject(objectId: string): any {
+        return this._objectsById.get(objectId);
+    }
+
+    /**
+     * How many objects the runtime holds for the tests and the code under test, to check that they are released
+     */
+    public get objectCount(): number {
+        return this._objectsById.size;
+    }
+
+    private callFunctionOn(params: Crdp.Runtime.CallFunctionOnRequest): Promise<Crdp.Runtime.CallFunctionOnResponse> {
+        return this.run(() => {
+            const fn: Function = this.evaluate(`(${params.functionDeclaration})`);
+            const args = (params.arguments || []).map(arg => arg.objectId ? this.getObject(arg.objectId) : arg.value);
+            return fn.apply(this.getObject(params.objectId), args);
+        }, params.returnByValue);
+    }
+
+    private getProperties(params: Crdp.Runtime.GetPropertiesRequest): Promise<Crdp.Runtime.GetPropertiesResponse> {
+        const object = this.getObject(params.objectId);
+        const result = Object.keys(object).map(name => ({ name, value: this.remoteObject(object[name]), configurable: true, enumerable: true }));
+        return Promise.resolve({ result });
+    }
+
+    private releaseObject(params: Crdp.Runtime.ReleaseObjectRequest): Promise<void> {
+        this._objectsById.delete(params.objectId);
+        return Promise.resolve();
+    }
+
+    private releaseObjectGroup(params: Crdp.Runtime.ReleaseObjectGroupRequest): Promise<void> {
+        (this._objectIdsByGroup.get(params.objectGroup) || []).forEach(objectId => this._objectsById.delete(objectId));
+        this._objectIdsByGroup.delete(params.objectGroup);
+        return Promise.resolve();
+    }
+
+    private evaluateRemote(expression: string, returnByValue?: boolean, objectGroup?: string): Promise<Crdp.Debugger.EvaluateOnCallFrameResponse> {
+        return this.run(() => this.evaluate(expression), returnByValue, objectGroup);
+    }
+
+    /**
+     * Like the runtime, an exception is reported in the response instead of failing the request
+     */
+    private run(fn: () => any, returnByValue?: boolean, objectGroup?: string): Promise<{ result: Crdp.Runtime.RemoteObject, exceptionDetails?: Crdp.Runtime.ExceptionDetails }> {
+        try {
+            const value = fn();
+            return Promise.resolve({ result: returnByValue ? { type: <Crdp.Runtime.RemoteObject['type']>typeof value, value } : this.remoteObject(value, objectGroup) });
+        } catch (e) {
+            const exception = { ...this.remoteObject(e, objectGroup), description: `${e.name}: ${e.message}` };
+            return Promise.resolve({
+                result: exception,
+                exceptionDetails: { exceptionId: 0, text: 'Uncaught', lineNumber: 0, columnNumber: 0, exception }
+            });
+        }
+    }
+}